@@ -1,46 +1,103 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import GraphCanvas from './components/GraphCanvas';
 import DataTable from './components/DataTable';
+import MatrixTable from './components/MatrixTable';
 import AIInsightsPanel from './components/AIInsightsPanel';
 import StepList from './components/StepList';
-import { runDoubleLabeling } from './services/dijkstra';
-import { INITIAL_NODES, INITIAL_EDGES } from './constants';
-import { Node, Edge, EditorMode, AlgorithmStep } from './types';
+import AlgorithmPicker from './components/AlgorithmPicker';
+import PathListPanel from './components/PathListPanel';
+import DestinationTable from './components/DestinationTable';
+import FrontierPanel from './components/FrontierPanel';
+import PropertiesInspector from './components/PropertiesInspector';
+import GraphLibrary from './components/GraphLibrary';
+import TraceExportMenu from './components/TraceExportMenu';
+import ImageExportPanel from './components/ImageExportPanel';
+import LayoutMenu from './components/LayoutMenu';
+import PlaybackTimeline from './components/PlaybackTimeline';
+import { ALGORITHMS, getAlgorithm, getDefaultOptions } from './services/algorithms';
+import { getMatrixPath } from './services/floyd';
+import { getPathEdgeIds } from './services/graph';
+import { EMPTY_TRACE, appendToTrace, getStep } from './services/trace';
+import { AlgorithmRunner, createAlgorithmRunner } from './services/algorithmRunner';
+import { EMPTY_HISTORY, isSameDocument, recordEdit, redoEdit, undoEdit } from './services/history';
+import { loadAutosave, saveAutosave, loadLibrary, saveLibrary } from './services/graphStorage';
+import { encodeSharedView, decodeSharedView, buildShareUrl } from './services/shareLink';
+import { LAYOUTS, applyLayout } from './services/layout';
+import { narrateStep } from './services/narration';
+import { DEFAULT_PLAYBACK_SPEED, ANY_PERMANENT, matchesBreakpoint, findNextStep, shiftPlaybackSpeed, getSpeedLabel, describeBreakpoint, isSameBreakpoint, pruneBreakpoints } from './services/playback';
+import { PASTE_OFFSET, selectAll, pruneSelection, deleteSelection, describeSelection, copySelection, pasteClipboard } from './services/selection';
+import { INITIAL_NODES, INITIAL_EDGES, COLORS, PATH_COLORS, DEFAULT_EDGE_WEIGHT } from './constants';
+import { Node, Edge, EditorMode, StepTrace, AlgorithmType, AlgorithmOptionValues, LegendItem, PathHighlight, RunProgress, EdgeWeightDefaults, GraphDocument, HistoryState, LibraryEntry, LayoutKind, Selection, GraphClipboard, Breakpoint } from './types';
 import { 
     MousePointer2, PlusCircle, Link, Play, RotateCcw, 
-    StepForward, StepBack, MapPin, 
-    Trash2, TableProperties
+    MapPin, 
+    Trash2, TableProperties, ArrowRight, ArrowLeftRight, Loader2, X, Undo2, Redo2, Library, Share2, Check, ImageDown, Network
 } from 'lucide-react';
 
 // --- Sub-components for better modularity ---
 
-const SidebarHeader = () => (
+const SidebarHeader = ({ title }: { title: string }) => (
     <div className="p-4 border-b border-slate-100 bg-white flex-shrink-0">
         <h1 className="text-xl font-bold bg-gradient-to-r from-blue-600 to-indigo-600 bg-clip-text text-transparent">
-            最短路双标号法
+            {title}
         </h1>
         <p className="text-xs text-slate-400 mt-1 uppercase tracking-wider font-semibold">Shortest Path Visualizer</p>
     </div>
 );
 
-const Toolbar = ({ mode, setMode, handleDelete, selection }: { 
+const Legend = ({ items }: { items: LegendItem[] }) => (
+    <div className="p-3 bg-white border-t border-slate-100 grid grid-cols-4 gap-2 text-[10px] font-medium text-slate-500">
+        {items.map(item => (
+            <div key={item.label} className="flex flex-col items-center gap-1">
+                <div className="w-2.5 h-2.5 rounded-full shadow-sm" style={{ backgroundColor: item.color }}></div>
+                {item.label}
+            </div>
+        ))}
+    </div>
+);
+
+// Editing tools; `key` switches to the tool from anywhere outside a text field
+const EDITOR_TOOLS = [
+    { m: EditorMode.SELECT, icon: MousePointer2, label: "选择", key: 'v' },
+    { m: EditorMode.ADD_NODE, icon: PlusCircle, label: "加节点", key: 'n' },
+    { m: EditorMode.ADD_EDGE, icon: Link, label: "加连线", key: 'e' },
+    { m: EditorMode.SET_START, icon: MapPin, label: "设起点", key: 's', color: "text-green-600" },
+    { m: EditorMode.SET_END, icon: MapPin, label: "设终点", key: 't', color: "text-red-600" },
+];
+
+// Playback shortcuts, also outside text fields; the canvas keeps the arrows, Enter and Space
+const PLAYBACK_KEYS: Record<string, 'toggle' | 'previous' | 'next' | 'first' | 'last' | 'nextPermanent' | 'faster' | 'slower' | 'breakpoint'> = {
+    p: 'toggle', P: 'toggle',
+    ',': 'previous', '.': 'next',
+    Home: 'first', End: 'last',
+    j: 'nextPermanent', J: 'nextPermanent',
+    '+': 'faster', '=': 'faster', '-': 'slower',
+    b: 'breakpoint', B: 'breakpoint',
+};
+
+const Toolbar = ({ mode, setMode, handleDelete, selection, directed, toggleDirected, history, onUndo, onRedo, onOpenLibrary, onOpenLayout, onOpenImageExport, onCopyLink, linkCopied }: { 
     mode: EditorMode, 
     setMode: (m: EditorMode) => void, 
     handleDelete: () => void, 
-    selection: any 
+    selection: Selection | null,
+    directed: boolean,
+    toggleDirected: () => void,
+    history: HistoryState,
+    onUndo: () => void,
+    onRedo: () => void,
+    onOpenLibrary: () => void,
+    onOpenLayout: () => void,
+    onOpenImageExport: () => void,
+    onCopyLink: () => void,
+    linkCopied: boolean
 }) => {
-    const tools = [
-        { m: EditorMode.SELECT, icon: MousePointer2, label: "选择" },
-        { m: EditorMode.ADD_NODE, icon: PlusCircle, label: "加节点" },
-        { m: EditorMode.ADD_EDGE, icon: Link, label: "加连线" },
-        { m: EditorMode.SET_START, icon: MapPin, label: "设起点", color: "text-green-600" },
-        { m: EditorMode.SET_END, icon: MapPin, label: "设终点", color: "text-red-600" },
-    ];
+    const undoLabel = history.past[history.past.length - 1]?.label;
+    const redoLabel = history.future[0]?.label;
 
     return (
         <div className="absolute top-4 right-4 bg-white/95 backdrop-blur rounded-xl shadow-lg border border-slate-200 p-1 flex flex-col gap-1 z-10">
-            {tools.map(item => (
+            {EDITOR_TOOLS.map(item => (
                 <button
                     key={item.m}
                     onClick={() => setMode(item.m)}
@@ -49,12 +106,70 @@ const Toolbar = ({ mode, setMode, handleDelete, selection }: {
                         ? 'bg-blue-600 text-white shadow-md' 
                         : 'hover:bg-slate-100 text-slate-500'
                     } ${item.color && mode !== item.m ? item.color : ''}`}
-                    title={item.label}
+                    title={`${item.label} (${item.key.toUpperCase()})`}
+                    aria-label={item.label}
+                    aria-pressed={mode === item.m}
                 >
                     <item.icon size={20} />
                 </button>
             ))}
             <div className="h-px w-full bg-slate-100 my-1"></div>
+            <button 
+                onClick={onUndo} 
+                disabled={!undoLabel}
+                className="p-2.5 rounded-lg transition-colors hover:bg-slate-100 text-slate-500 disabled:opacity-30 disabled:hover:bg-transparent" 
+                title={undoLabel ? `撤销：${undoLabel} (Ctrl+Z)` : "没有可撤销的操作"}
+            >
+                <Undo2 size={20} />
+            </button>
+            <button 
+                onClick={onRedo} 
+                disabled={!redoLabel}
+                className="p-2.5 rounded-lg transition-colors hover:bg-slate-100 text-slate-500 disabled:opacity-30 disabled:hover:bg-transparent" 
+                title={redoLabel ? `重做：${redoLabel} (Ctrl+Shift+Z)` : "没有可重做的操作"}
+            >
+                <Redo2 size={20} />
+            </button>
+            <div className="h-px w-full bg-slate-100 my-1"></div>
+            <button 
+                onClick={toggleDirected} 
+                className={`p-2.5 rounded-lg transition-colors ${
+                    directed 
+                    ? 'bg-indigo-100 text-indigo-600 hover:bg-indigo-200' 
+                    : 'hover:bg-slate-100 text-slate-500'
+                }`} 
+                title={directed ? "有向图（点击切换为无向图）" : "无向图（点击切换为有向图）"}
+            >
+                {directed ? <ArrowRight size={20} /> : <ArrowLeftRight size={20} />}
+            </button>
+            <button 
+                onClick={onOpenLibrary} 
+                className="p-2.5 rounded-lg transition-colors hover:bg-slate-100 text-slate-500" 
+                title="图库：保存、打开与例题"
+            >
+                <Library size={20} />
+            </button>
+            <button 
+                onClick={onOpenLayout} 
+                className="p-2.5 rounded-lg transition-colors hover:bg-slate-100 text-slate-500" 
+                title="自动布局"
+            >
+                <Network size={20} />
+            </button>
+            <button 
+                onClick={onOpenImageExport} 
+                className="p-2.5 rounded-lg transition-colors hover:bg-slate-100 text-slate-500" 
+                title="导出图片（SVG / PNG / 步骤动画）"
+            >
+                <ImageDown size={20} />
+            </button>
+            <button 
+                onClick={onCopyLink} 
+                className={`p-2.5 rounded-lg transition-colors ${linkCopied ? 'text-green-600' : 'hover:bg-slate-100 text-slate-500'}`} 
+                title={linkCopied ? "链接已复制" : "复制链接（包含图、起终点、算法与当前步骤）"}
+            >
+                {linkCopied ? <Check size={20} /> : <Share2 size={20} />}
+            </button>
             <button 
                 onClick={handleDelete} 
                 className={`p-2.5 rounded-lg transition-colors ${
@@ -62,7 +177,7 @@ const Toolbar = ({ mode, setMode, handleDelete, selection }: {
                     ? 'bg-red-100 text-red-600 hover:bg-red-200' 
                     : 'hover:bg-slate-100 text-slate-400'
                 }`} 
-                title={selection ? "删除选中" : "清空"}
+                title={selection ? `删除选中（${describeSelection(selection)}）` : "清空"}
             >
                 <Trash2 size={20} />
             </button>
@@ -73,34 +188,97 @@ const Toolbar = ({ mode, setMode, handleDelete, selection }: {
 // --- Main App Component ---
 
 export default function App() {
-  // Graph State
-  const [nodes, setNodes] = useState<Node[]>(INITIAL_NODES);
-  const [edges, setEdges] = useState<Edge[]>(INITIAL_EDGES);
-  const [startNodeId, setStartNodeId] = useState<string>('1');
-  const [endNodeId, setEndNodeId] = useState<string>('6');
+  // A shared link in the URL hash wins over the last session's autosave
+  const [sharedView] = useState(() => decodeSharedView(window.location.hash));
+
+  // Graph State (restored from the link or the autosave when there is one)
+  const [initialGraph] = useState<GraphDocument>(() => sharedView?.graph ?? loadAutosave() ?? {
+      nodes: INITIAL_NODES, edges: INITIAL_EDGES, startNodeId: '1', endNodeId: '6', directed: false,
+  });
+  const [nodes, setNodes] = useState<Node[]>(initialGraph.nodes);
+  const [edges, setEdges] = useState<Edge[]>(initialGraph.edges);
+  const [startNodeId, setStartNodeId] = useState<string>(initialGraph.startNodeId);
+  const [endNodeId, setEndNodeId] = useState<string>(initialGraph.endNodeId);
+  const [directed, setDirected] = useState(initialGraph.directed);
   
   // Selection & UI State
-  const [selection, setSelection] = useState<{ type: 'node' | 'edge', id: string } | null>(null);
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const clipboard = useRef<{ content: GraphClipboard, pastes: number } | null>(null); // pastes: copies made so far, for the offset
   const [mode, setMode] = useState<EditorMode>(EditorMode.SELECT);
+  const [edgeWeightDefaults, setEdgeWeightDefaults] = useState<EdgeWeightDefaults>(DEFAULT_EDGE_WEIGHT);
+
+  // Undo/redo
+  const [history, setHistory] = useState<HistoryState>(EMPTY_HISTORY);
+  const dragOrigin = useRef<GraphDocument | null>(null); // Document before the drag in progress
+
+  // Graph library
+  const [library, setLibrary] = useState<LibraryEntry[]>(loadLibrary);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [isImageExportOpen, setIsImageExportOpen] = useState(false);
+  const [isLayoutMenuOpen, setIsLayoutMenuOpen] = useState(false);
+  const [layoutTransition, setLayoutTransition] = useState(0); // Tells the canvas to animate a layout change
+  // Screen-reader live region; `seq` makes a repeated message a new one so it is read again
+  const [announcement, setAnnouncement] = useState({ text: '', seq: 0 });
 
   // Algorithm State
-  const [steps, setSteps] = useState<AlgorithmStep[]>([]);
+  const [algorithmId, setAlgorithmId] = useState<AlgorithmType>(sharedView?.algorithmId ?? AlgorithmType.DOUBLE_LABELING);
+  const [algorithmOptions, setAlgorithmOptions] = useState<Partial<Record<AlgorithmType, AlgorithmOptionValues>>>(
+      () => (sharedView?.options ? { [sharedView.algorithmId]: sharedView.options } : {}));
+  const [steps, setSteps] = useState<StepTrace>(EMPTY_TRACE);
   const [currentStepIndex, setCurrentStepIndex] = useState(-1);
   const [isPlaying, setIsPlaying] = useState(false);
-  const [playbackSpeed] = useState(1000);
+  const [playbackSpeed, setPlaybackSpeed] = useState(DEFAULT_PLAYBACK_SPEED); // Milliseconds per step
+  const [breakpoints, setBreakpoints] = useState<Breakpoint[]>([]);
+  const [pausedAt, setPausedAt] = useState<Breakpoint | null>(null); // Breakpoint that stopped playback at the current step
+  const [selectedPair, setSelectedPair] = useState<{ from: string, to: string } | null>(null);
+  const [selectedPaths, setSelectedPaths] = useState<number[]>([]);
+  const [runProgress, setRunProgress] = useState<RunProgress | null>(null); // Set while the worker is running
+  const runnerRef = useRef<AlgorithmRunner | null>(null);
+  const pendingStep = useRef(sharedView?.stepIndex ?? -1); // Step to jump to once a shared link's run has produced it
+
+  const algorithm = getAlgorithm(algorithmId);
+  // Stored options are laid over the defaults so a missing key never reaches a runner
+  const options = useMemo(() => ({ ...getDefaultOptions(algorithm), ...algorithmOptions[algorithmId] }), [algorithm, algorithmOptions, algorithmId]);
 
   // --- Logic Helpers ---
 
   const generateSteps = useCallback(() => {
-    if (!startNodeId || !endNodeId) {
-        alert("请先设置起点和终点");
+    const missing = [
+        ...(algorithm.inputs.start === 'required' && !startNodeId ? ['起点'] : []),
+        ...(algorithm.inputs.end === 'required' && !endNodeId ? ['终点'] : []),
+    ];
+    if (missing.length > 0) {
+        alert(`请先设置${missing.join('和')}`);
+        return;
+    }
+    if (directed ? !algorithm.features.directed : !algorithm.features.undirected) {
+        alert(`${algorithm.name}不支持${directed ? '有向图' : '无向图'}`);
         return;
     }
-    const result = runDoubleLabeling(nodes, edges, startNodeId, endNodeId);
-    setSteps(result);
-    setCurrentStepIndex(0);
+    setSteps(EMPTY_TRACE);
+    setSelectedPair(null);
+    setSelectedPaths([]);
+    setCurrentStepIndex(-1);
     setIsPlaying(false);
-  }, [nodes, edges, startNodeId, endNodeId]);
+    setRunProgress({ steps: 0, settled: 0, total: nodes.length });
+
+    runnerRef.current = runnerRef.current ?? createAlgorithmRunner();
+    runnerRef.current.run(algorithm.id, { nodes, edges, startNodeId, endNodeId, directed, options }, {
+        onChunk: (frames, keyframes, progress) => {
+            setSteps(prev => appendToTrace(prev, frames, keyframes));
+            setCurrentStepIndex(prev => (prev < 0 ? 0 : prev));
+            setRunProgress(progress);
+        },
+        onDone: () => setRunProgress(null),
+        onError: (message) => {
+            setRunProgress(null);
+            alert(`计算出错：${message}`);
+        },
+    });
+  }, [nodes, edges, startNodeId, endNodeId, directed, algorithm, options]);
+
+  useEffect(() => () => runnerRef.current?.cancel(), []);
 
   useEffect(() => {
     let interval: number;
@@ -114,69 +292,349 @@ export default function App() {
             return prev + 1;
         });
       }, playbackSpeed);
-    } else if (currentStepIndex >= steps.length - 1) {
+    } else if (currentStepIndex >= steps.length - 1 && !runProgress) {
+        // While the worker is still running, playback waits for the next chunk
         setIsPlaying(false);
     }
     return () => clearInterval(interval);
-  }, [isPlaying, steps.length, currentStepIndex, playbackSpeed]);
+  }, [isPlaying, steps.length, currentStepIndex, playbackSpeed, runProgress]);
 
   const resetAlgorithm = () => {
+    runnerRef.current?.cancel();
+    pendingStep.current = -1;
+    setRunProgress(null);
     setIsPlaying(false);
+    setPausedAt(null);
     setCurrentStepIndex(-1);
-    setSteps([]);
+    setSteps(EMPTY_TRACE);
+    setSelectedPair(null);
+    setSelectedPaths([]);
   };
 
+  // --- Shared links ---
+
+  // A link that points at a step re-runs the algorithm on load
+  useEffect(() => {
+      if (pendingStep.current >= 0) generateSteps();
+  }, []);
+
+  useEffect(() => {
+      const target = pendingStep.current;
+      if (target < 0 || steps.length === 0) return;
+      if (steps.length > target || !runProgress) {
+          pendingStep.current = -1;
+          setCurrentStepIndex(Math.min(target, steps.length - 1));
+      }
+  }, [steps.length, runProgress]);
+
+  const currentShareHash = () => encodeSharedView({
+      graph: { nodes, edges, startNodeId, endNodeId, directed },
+      algorithmId,
+      options: algorithmOptions[algorithmId],
+      stepIndex: pendingStep.current >= 0 ? pendingStep.current : steps.length > 0 ? currentStepIndex : -1,
+  });
+
+  // Keep the address bar in sync without adding browser history entries
+  useEffect(() => {
+      const timer = window.setTimeout(() => window.history.replaceState(null, '', currentShareHash()), 300);
+      return () => clearTimeout(timer);
+  }, [nodes, edges, startNodeId, endNodeId, directed, algorithmId, algorithmOptions, steps.length > 0, currentStepIndex]);
+
+  // replaceState never fires hashchange, so this only sees links pasted into the address bar
+  useEffect(() => {
+      const handleHashChange = () => {
+          if (decodeSharedView(window.location.hash)) window.location.reload();
+      };
+      window.addEventListener('hashchange', handleHashChange);
+      return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  const copyShareLink = async () => {
+      const url = buildShareUrl(currentShareHash());
+      try {
+          await navigator.clipboard.writeText(url);
+          setLinkCopied(true);
+          window.setTimeout(() => setLinkCopied(false), 1500);
+      } catch {
+          prompt('复制以下链接：', url);
+      }
+  };
+
+  const announce = (text: string) => setAnnouncement(a => ({ text, seq: a.seq + 1 }));
+
   const handleModeChange = (newMode: EditorMode) => {
       setMode(newMode);
       setSelection(null);
   };
 
+  // --- Editing History ---
+
+  const currentDocument = (): GraphDocument => ({ nodes, edges, startNodeId, endNodeId, directed });
+
+  const applyDocument = (doc: GraphDocument) => {
+      setNodes(doc.nodes);
+      setEdges(doc.edges);
+      setStartNodeId(doc.startNodeId);
+      setEndNodeId(doc.endNodeId);
+      setDirected(doc.directed);
+      // Keep only the selected items that still exist
+      setSelection(sel => pruneSelection(sel, doc));
+      setBreakpoints(bps => pruneBreakpoints(bps, doc));
+      resetAlgorithm();
+  };
+
+  // Every graph edit goes through here so it can be undone as one command
+  const commitEdit = (label: string, change: Partial<GraphDocument>) => {
+      const before = currentDocument();
+      const after = { ...before, ...change };
+      if (isSameDocument(before, after)) return;
+      setHistory(h => recordEdit(h, { label, before, after }));
+      applyDocument(after);
+  };
+
+  const handleUndo = () => {
+      const result = undoEdit(history);
+      if (!result) return;
+      setHistory(result.history);
+      applyDocument(result.document);
+  };
+
+  const handleRedo = () => {
+      const result = redoEdit(history);
+      if (!result) return;
+      setHistory(result.history);
+      applyDocument(result.document);
+  };
+
+  // A drag updates positions live and is recorded as a single move once released
+  const handleNodesDrag = (updated: Node[]) => {
+      if (!dragOrigin.current) dragOrigin.current = currentDocument();
+      setNodes(updated);
+      resetAlgorithm();
+  };
+
+  const handleDragEnd = () => {
+      const before = dragOrigin.current;
+      dragOrigin.current = null;
+      if (before) setHistory(h => recordEdit(h, { label: '移动节点', before, after: { ...before, nodes } }));
+  };
+
+  useEffect(() => {
+      const handleKeyDown = (e: KeyboardEvent) => {
+          // Text fields keep their own undo, clipboard and deletion
+          const target = e.target as HTMLElement;
+          if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable) return;
+          if (!(e.ctrlKey || e.metaKey)) {
+              const tool = !e.altKey && !e.shiftKey ? EDITOR_TOOLS.find(t => t.key === e.key.toLowerCase()) : undefined;
+              const playback = !e.altKey && PLAYBACK_KEYS[e.key];
+              const focusedNodeId = selection?.nodeIds[selection.nodeIds.length - 1];
+              if ((e.key === 'Delete' || e.key === 'Backspace') && selection) {
+                  e.preventDefault();
+                  handleDelete();
+              } else if (playback === 'toggle') {
+                  togglePlayback();
+              } else if (playback === 'breakpoint') {
+                  if (focusedNodeId) toggleNodeBreakpoint(focusedNodeId);
+              } else if (playback && steps.length > 0) {
+                  e.preventDefault();
+                  if (playback === 'previous') seekStep(currentStepIndex - 1);
+                  else if (playback === 'next') seekStep(currentStepIndex + 1);
+                  else if (playback === 'first') seekStep(0);
+                  else if (playback === 'last') seekStep(steps.length - 1);
+                  else if (playback === 'nextPermanent') jumpToNextPermanent();
+                  else if (playback === 'faster' || playback === 'slower') changeSpeed(shiftPlaybackSpeed(playbackSpeed, playback === 'faster' ? 1 : -1));
+              } else if (tool) {
+                  // Tool switches keep the keyboard focus, so editing can go on from the same node
+                  setMode(tool.m);
+                  announce(`${tool.label}工具`);
+              }
+              return;
+          }
+          const key = e.key.toLowerCase();
+          if (key === 'z' && !e.shiftKey) {
+              e.preventDefault();
+              handleUndo();
+          } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+              e.preventDefault();
+              handleRedo();
+          } else if (key === 'a') {
+              e.preventDefault();
+              setSelection(selectAll(currentDocument()));
+          } else if (key === 'c' && selection) {
+              e.preventDefault();
+              copySelected();
+          } else if (key === 'x' && selection) {
+              e.preventDefault();
+              cutSelected();
+          } else if (key === 'v' && clipboard.current) {
+              e.preventDefault();
+              pasteClipboardContent();
+          } else if (key === 'd' && selection) {
+              e.preventDefault();
+              duplicateSelected();
+          }
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Autosave the working graph, debounced so a drag writes once
+  useEffect(() => {
+      const timer = window.setTimeout(() => saveAutosave({ nodes, edges, startNodeId, endNodeId, directed }), 500);
+      return () => clearTimeout(timer);
+  }, [nodes, edges, startNodeId, endNodeId, directed]);
+
+  const updateLibrary = (entries: LibraryEntry[]) => {
+      setLibrary(entries);
+      if (!saveLibrary(entries)) alert('保存失败：浏览器存储不可用或空间不足。');
+  };
+
+  const loadGraph = (name: string, graph: GraphDocument) => {
+      commitEdit(`载入「${name}」`, graph);
+      setSelection(null);
+      setIsLibraryOpen(false);
+  };
+
   const handleDelete = () => {
       if (selection) {
-          if (selection.type === 'node') {
-              const nodeId = selection.id;
-              setNodes(prev => prev.filter(n => n.id !== nodeId));
-              setEdges(prev => prev.filter(e => e.source !== nodeId && e.target !== nodeId));
-              if (startNodeId === nodeId) setStartNodeId('');
-              if (endNodeId === nodeId) setEndNodeId('');
-              setSelection(null);
-              resetAlgorithm();
-          } else if (selection.type === 'edge') {
-              setEdges(prev => prev.filter(e => e.id !== selection.id));
-              setSelection(null);
-              resetAlgorithm();
-          }
+          commitEdit(`删除${describeSelection(selection)}`, deleteSelection(currentDocument(), selection));
+          setSelection(null);
       } else {
-          if (confirm("确定清空整个画布吗？这将删除所有节点和边。")) {
-              resetAlgorithm();
-              setNodes([]);
-              setEdges([]);
-              setStartNodeId('');
-              setEndNodeId('');
+          if (confirm("确定清空整个画布吗？这将删除所有节点和边（可用 Ctrl+Z 撤销）。")) {
+              commitEdit('清空画布', { nodes: [], edges: [], startNodeId: '', endNodeId: '' });
               setSelection(null);
           }
       }
   };
 
-  const handleStep = (direction: 'forward' | 'backward') => {
-      setIsPlaying(false);
-      if (direction === 'forward' && currentStepIndex < steps.length - 1) {
-          setCurrentStepIndex(prev => prev + 1);
-      } else if (direction === 'backward' && currentStepIndex > 0) {
-          setCurrentStepIndex(prev => prev - 1);
+  const copySelected = () => {
+      const content = selection && copySelection(currentDocument(), selection);
+      if (content) clipboard.current = { content, pastes: 0 };
+      return content;
+  };
+
+  const cutSelected = () => {
+      if (!selection || !copySelected()) return;
+      clipboard.current!.pastes = -1;
+      commitEdit(`剪切${describeSelection(selection)}`, deleteSelection(currentDocument(), selection));
+      setSelection(null);
+  };
+
+  const insertCopy = (label: string, content: GraphClipboard, offset: number) => {
+      const pasted = pasteClipboard(currentDocument(), content, offset);
+      commitEdit(label, { nodes: pasted.nodes, edges: pasted.edges });
+      setSelection(pasted.selection);
+  };
+
+  const pasteClipboardContent = () => {
+      if (!clipboard.current) return;
+      // A cut pastes in place the first time; copies step away from the originals
+      clipboard.current.pastes++;
+      insertCopy('粘贴', clipboard.current.content, PASTE_OFFSET * clipboard.current.pastes);
+  };
+
+  const duplicateSelected = () => {
+      const content = selection && copySelection(currentDocument(), selection);
+      if (content) insertCopy('复制一份', content, PASTE_OFFSET);
+  };
+
+  const updateNode = (id: string, patch: Partial<Node>) =>
+      commitEdit('修改节点', { nodes: nodes.map(n => (n.id === id ? { ...n, ...patch } : n)) });
+
+  const updateEdge = (id: string, patch: Partial<Edge>) =>
+      commitEdit('修改边', { edges: edges.map(e => (e.id === id ? { ...e, ...patch } : e)) });
+
+  const runLayout = (kind: LayoutKind) => {
+      const label = LAYOUTS.find(l => l.id === kind)?.label ?? kind;
+      commitEdit(`自动布局：${label}`, { nodes: applyLayout(kind, currentDocument()) });
+      setLayoutTransition(t => t + 1);
+  };
+
+  const togglePlayback = () => {
+      if (steps.length === 0) {
+          if (!runProgress) generateSteps();
+          return;
       }
+      setPausedAt(null);
+      setIsPlaying(!isPlaying);
   };
 
-  const currentStepData = currentStepIndex >= 0 ? steps[currentStepIndex] : null;
+  // Manual navigation pauses playback; indices outside the trace are ignored
+  const seekStep = (index: number) => {
+      setIsPlaying(false);
+      if (index >= 0 && index < steps.length) setCurrentStepIndex(index);
+  };
+
+  const jumpToNextPermanent = () => {
+      const next = findNextStep(steps, currentStepIndex, f => matchesBreakpoint(f, ANY_PERMANENT));
+      if (next >= 0) seekStep(next);
+      else announce('后面没有新的永久标号');
+  };
+
+  const changeSpeed = (ms: number) => {
+      setPlaybackSpeed(ms);
+      announce(`播放速度 ${getSpeedLabel(ms)}`);
+  };
+
+  // B on a node: stop when it becomes permanent, or drop that breakpoint again
+  const toggleNodeBreakpoint = (nodeId: string) => {
+      const breakpoint: Breakpoint = { id: `bp-${Date.now()}`, kind: 'permanent', nodeId };
+      const existing = breakpoints.find(bp => isSameBreakpoint(bp, breakpoint));
+      setBreakpoints(existing ? breakpoints.filter(bp => bp !== existing) : [...breakpoints, breakpoint]);
+      announce(`${existing ? '已移除' : '已添加'}断点：${describeBreakpoint(breakpoint, nodes)}`);
+  };
+
+  const currentStepData = useMemo(() => getStep(steps, currentStepIndex), [steps, currentStepIndex]);
+
+  // Path of the matrix cell picked in the Floyd view, read from the current path matrix
+  const pathHighlights: PathHighlight[] = [];
+  if (selectedPair && currentStepData?.matrix) {
+      const pathNodes = getMatrixPath(currentStepData.matrix, selectedPair.from, selectedPair.to);
+      if (pathNodes.length > 0) {
+          pathHighlights.push({ nodeIds: pathNodes, edgeIds: getPathEdgeIds(edges, pathNodes, directed), color: COLORS.success });
+      }
+  }
+  // Result paths picked in the path list, each in its own colour
+  const resultPaths = currentStepData?.paths ?? [];
+  selectedPaths.forEach(idx => {
+      const path = resultPaths[idx];
+      if (path) pathHighlights.push({ nodeIds: path.nodeIds, edgeIds: path.edgeIds, color: PATH_COLORS[idx % PATH_COLORS.length] });
+  });
+
+  // Read each step out as playback reaches it and pause there if it hits a breakpoint;
+  // keyed on the index so trace chunks arriving do not repeat it
+  useEffect(() => {
+      if (!currentStepData) return;
+      const hit = (isPlaying && breakpoints.find(bp => matchesBreakpoint(steps.frames[currentStepIndex], bp))) || null;
+      setPausedAt(hit);
+      if (hit) setIsPlaying(false);
+      const previous = currentStepIndex > 0 ? getStep(steps, currentStepIndex - 1) : null;
+      const scene = { nodes, edges, directed, startNodeId, endNodeId, stepState: currentStepData, pathHighlights: [], selection: null };
+      const stop = hit ? `断点暂停（${describeBreakpoint(hit, nodes)}）。` : '';
+      announce(`${stop}步骤 ${currentStepIndex + 1}：${narrateStep(scene, currentStepData.description, previous)}`);
+  }, [currentStepIndex]);
+
+  const togglePath = (idx: number) =>
+      setSelectedPaths(prev => (prev.includes(idx) ? prev.filter(i => i !== idx) : [...prev, idx]));
 
   // --- Render ---
 
   return (
     <div className="flex flex-col md:flex-row h-screen w-full bg-slate-50 overflow-hidden text-slate-900">
+      <div className="sr-only" aria-live="polite" aria-atomic="true">
+          {announcement.text && <span key={announcement.seq}>{announcement.text}</span>}
+      </div>
       
       {/* 1. LEFT SIDEBAR (Algorithm Steps and Data) */}
       <aside className="w-full md:w-[320px] lg:w-[380px] bg-white border-r border-slate-200 flex flex-col shadow-xl z-20 flex-shrink-0 h-[40dvh] md:h-full">
-        <SidebarHeader />
+        <SidebarHeader title={algorithm.name} />
+        <AlgorithmPicker 
+            algorithms={ALGORITHMS}
+            selected={algorithm}
+            onSelect={(id) => { setAlgorithmId(id); resetAlgorithm(); }} 
+            options={options}
+            onOptionsChange={(o) => { setAlgorithmOptions(prev => ({ ...prev, [algorithmId]: o })); resetAlgorithm(); }}
+        />
         
         <div className="flex-1 flex flex-col overflow-hidden">
             {/* Step List Component */}
@@ -184,8 +642,7 @@ export default function App() {
                 steps={steps} 
                 currentIndex={currentStepIndex} 
                 onStepSelect={(idx) => {
-                    setIsPlaying(false);
-                    setCurrentStepIndex(idx);
+                    seekStep(idx);
                 }}
             />
 
@@ -193,14 +650,16 @@ export default function App() {
             <div className="p-4 border-b border-slate-100 bg-slate-50/50 flex-shrink-0">
                 <div className="flex items-center gap-2 mb-3">
                     <button 
-                        onClick={steps.length === 0 ? generateSteps : () => setIsPlaying(!isPlaying)}
-                        className={`flex-1 flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl text-sm font-bold transition-all active:scale-95 shadow-md ${
+                        onClick={togglePlayback}
+                        disabled={runProgress !== null && steps.length === 0}
+                        title={steps.length > 0 ? '播放 / 暂停 (P)' : undefined}
+                        className={`flex-1 flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl text-sm font-bold transition-all active:scale-95 shadow-md disabled:opacity-60 ${
                             isPlaying 
                             ? 'bg-amber-100 text-amber-700 ring-1 ring-amber-200' 
                             : 'bg-blue-600 text-white shadow-blue-200'
                         }`}
                     >
-                        {isPlaying ? <span>暂停演示</span> : (steps.length === 0 ? <><Play size={16}/> 开始计算</> : <><Play size={16}/> 继续演示</>)}
+                        {isPlaying ? <span>暂停演示</span> : (steps.length === 0 ? (runProgress ? <><Loader2 size={16} className="animate-spin"/> 计算中…</> : <><Play size={16}/> 开始计算</>) : <><Play size={16}/> 继续演示</>)}
                     </button>
                     <button 
                         onClick={resetAlgorithm}
@@ -211,37 +670,98 @@ export default function App() {
                     </button>
                 </div>
 
+                {runProgress && (
+                    <div className="mb-3 bg-white rounded-xl border border-blue-100 px-3 py-2 shadow-sm">
+                        <div className="flex items-center justify-between gap-2 text-[11px] text-slate-500">
+                            <span className="flex items-center gap-1.5">
+                                <Loader2 size={12} className="animate-spin text-blue-600"/>
+                                已生成 {runProgress.steps} 步 · 已确定 {runProgress.settled} / {runProgress.total} 个节点
+                            </span>
+                            <button
+                                onClick={resetAlgorithm}
+                                className="flex items-center gap-1 px-2 py-0.5 rounded-md text-red-500 hover:bg-red-50 font-bold"
+                                title="取消计算"
+                            >
+                                <X size={12}/> 取消
+                            </button>
+                        </div>
+                        <div className="mt-1.5 h-1 rounded-full bg-slate-100 overflow-hidden">
+                            <div
+                                className={`h-full bg-blue-500 transition-all ${runProgress.settled === 0 ? 'w-full opacity-30 animate-pulse' : ''}`}
+                                style={runProgress.settled > 0 ? { width: `${(runProgress.settled / Math.max(1, runProgress.total)) * 100}%` } : undefined}
+                            />
+                        </div>
+                    </div>
+                )}
+
                 {steps.length > 0 && (
                     <div className="bg-white rounded-xl border border-slate-200 p-3 shadow-sm">
-                        <div className="flex items-center justify-between mb-2">
-                            <button onClick={() => handleStep('backward')} disabled={currentStepIndex <= 0} className="p-1.5 hover:bg-slate-100 rounded-lg text-slate-600 disabled:opacity-20"><StepBack size={18}/></button>
-                            <span className="text-xs font-bold text-slate-500 bg-slate-100 px-2 py-1 rounded-md">Step {currentStepIndex + 1} / {steps.length}</span>
-                            <button onClick={() => handleStep('forward')} disabled={currentStepIndex >= steps.length - 1} className="p-1.5 hover:bg-slate-100 rounded-lg text-slate-600 disabled:opacity-20"><StepForward size={18}/></button>
-                        </div>
+                        <PlaybackTimeline
+                            steps={steps}
+                            currentIndex={currentStepIndex}
+                            onSeek={seekStep}
+                            speed={playbackSpeed}
+                            onSpeedChange={changeSpeed}
+                            breakpoints={breakpoints}
+                            onBreakpointsChange={setBreakpoints}
+                            pausedAt={pausedAt}
+                            nodes={nodes}
+                        />
                         <div className="text-xs text-slate-600 leading-relaxed max-h-20 overflow-y-auto">
                             {currentStepData?.description}
                         </div>
+                        <div className="flex justify-end mt-1">
+                            <TraceExportMenu steps={steps} nodes={nodes} algorithm={algorithm} disabled={runProgress !== null} />
+                        </div>
                     </div>
                 )}
             </div>
 
+            {/* Priority queue of the current step */}
+            {currentStepData?.frontier && (
+                <FrontierPanel frontier={currentStepData.frontier} nodes={nodes} />
+            )}
+
+            {/* Result paths of the current step */}
+            {resultPaths.length > 0 && (algorithm.resultsView === 'destinations' ? (
+                <DestinationTable 
+                    title={algorithm.resultsTitle ?? '结果路径'}
+                    paths={resultPaths} 
+                    nodes={nodes} 
+                    selected={selectedPaths} 
+                    onToggle={togglePath} 
+                />
+            ) : (
+                <PathListPanel 
+                    title={algorithm.resultsTitle ?? '结果路径'}
+                    paths={resultPaths} 
+                    nodes={nodes} 
+                    selected={selectedPaths} 
+                    onToggle={togglePath} 
+                />
+            ))}
+
             {/* Data Table */}
             <div className="flex-1 flex flex-col min-h-0">
                 <div className="bg-slate-50 px-4 py-2 text-[10px] font-bold text-slate-400 uppercase tracking-widest border-b border-slate-200 flex items-center gap-2">
-                    <TableProperties size={12}/> 标号状态表
+                    <TableProperties size={12}/> {algorithm.panel === 'matrix' ? '距离 / 路径矩阵' : '标号状态表'}
                 </div>
                 <div className="flex-1 overflow-auto">
-                    <DataTable currentStep={currentStepData} nodes={nodes} />
+                    {algorithm.panel === 'matrix' ? (
+                        <MatrixTable 
+                            currentStep={currentStepData} 
+                            nodes={nodes} 
+                            selectedPair={selectedPair} 
+                            onSelectPair={setSelectedPair} 
+                        />
+                    ) : (
+                        <DataTable currentStep={currentStepData} nodes={nodes} columns={algorithm.columns} />
+                    )}
                 </div>
             </div>
 
             {/* Legend */}
-            <div className="p-3 bg-white border-t border-slate-100 grid grid-cols-4 gap-2 text-[10px] font-medium text-slate-500">
-                <div className="flex flex-col items-center gap-1"><div className="w-2.5 h-2.5 rounded-full bg-blue-500 shadow-sm shadow-blue-200"></div>P永久</div>
-                <div className="flex flex-col items-center gap-1"><div className="w-2.5 h-2.5 rounded-full bg-amber-500 shadow-sm shadow-amber-200"></div>T临时</div>
-                <div className="flex flex-col items-center gap-1"><div className="w-2.5 h-2.5 rounded-full bg-green-500 shadow-sm shadow-green-200"></div>起点</div>
-                <div className="flex flex-col items-center gap-1"><div className="w-2.5 h-2.5 rounded-full bg-red-500 shadow-sm shadow-red-200"></div>终点</div>
-            </div>
+            <Legend items={algorithm.legend} />
         </div>
       </aside>
 
@@ -252,24 +772,77 @@ export default function App() {
             <GraphCanvas 
                 nodes={nodes}
                 edges={edges}
-                onNodesChange={(n) => { setNodes(n); resetAlgorithm(); }}
-                onEdgesChange={(e) => { setEdges(e); resetAlgorithm(); }}
+                directed={directed}
+                onNodesChange={(n) => commitEdit('添加节点', { nodes: n })}
+                onEdgesChange={(e) => commitEdit(e.length > edges.length ? '添加边' : '修改权值', { edges: e })}
+                onNodesDrag={handleNodesDrag}
+                onDragEnd={handleDragEnd}
                 mode={mode}
                 startNodeId={startNodeId}
                 endNodeId={endNodeId}
-                setStartNodeId={(id) => { setStartNodeId(id); resetAlgorithm(); }}
-                setEndNodeId={(id) => { setEndNodeId(id); resetAlgorithm(); }}
+                setStartNodeId={(id) => commitEdit('设置起点', { startNodeId: id })}
+                setEndNodeId={(id) => commitEdit('设置终点', { endNodeId: id })}
                 currentStepState={currentStepData}
                 showLabels={true}
+                pathHighlights={pathHighlights}
                 resetAlgorithm={resetAlgorithm}
                 selection={selection}
                 onSelect={setSelection}
+                edgeWeightDefaults={edgeWeightDefaults}
+                allowNegativeWeights={algorithm.features.negativeWeights}
+                layoutTransition={layoutTransition}
+                onAnnounce={announce}
             />
             <Toolbar 
                 mode={mode} 
                 setMode={handleModeChange} 
                 handleDelete={handleDelete} 
                 selection={selection} 
+                directed={directed}
+                toggleDirected={() => commitEdit(directed ? '切换为无向图' : '切换为有向图', { directed: !directed })}
+                history={history}
+                onUndo={handleUndo}
+                onRedo={handleRedo}
+                onOpenLibrary={() => setIsLibraryOpen(true)}
+                onOpenLayout={() => { setIsLayoutMenuOpen(!isLayoutMenuOpen); setIsImageExportOpen(false); }}
+                onOpenImageExport={() => { setIsImageExportOpen(!isImageExportOpen); setIsLayoutMenuOpen(false); }}
+                onCopyLink={copyShareLink}
+                linkCopied={linkCopied}
+            />
+            {isLayoutMenuOpen && (
+                <LayoutMenu
+                    nodes={nodes}
+                    onApply={runLayout}
+                    onUnpinAll={() => commitEdit('取消全部固定', { nodes: nodes.map(n => (n.pinned ? { ...n, pinned: false } : n)) })}
+                    onClose={() => setIsLayoutMenuOpen(false)}
+                />
+            )}
+            {isImageExportOpen && (
+                <ImageExportPanel
+                    scene={{ nodes, edges, directed, startNodeId, endNodeId, stepState: currentStepData, pathHighlights, selection }}
+                    steps={steps}
+                    currentStepIndex={currentStepIndex}
+                    running={runProgress !== null}
+                    secondsPerFrame={playbackSpeed / 1000}
+                    onClose={() => setIsImageExportOpen(false)}
+                />
+            )}
+            <PropertiesInspector
+                selection={selection}
+                nodes={nodes}
+                edges={edges}
+                directed={directed}
+                startNodeId={startNodeId}
+                endNodeId={endNodeId}
+                allowNegativeWeights={algorithm.features.negativeWeights}
+                onNodeChange={updateNode}
+                onEdgeChange={updateEdge}
+                onSetStart={(id) => commitEdit('设置起点', { startNodeId: id })}
+                onSetEnd={(id) => commitEdit('设置终点', { endNodeId: id })}
+                onDuplicate={duplicateSelected}
+                onDelete={handleDelete}
+                weightDefaults={edgeWeightDefaults}
+                onWeightDefaultsChange={setEdgeWeightDefaults}
             />
         </div>
 
@@ -278,11 +851,23 @@ export default function App() {
              <AIInsightsPanel 
                 nodes={nodes} 
                 edges={edges} 
+                directed={directed}
+                algorithmName={algorithm.name}
                 startNodeId={startNodeId}
                 endNodeId={endNodeId}
             />
         </div>
       </main>
+
+      {isLibraryOpen && (
+        <GraphLibrary
+            current={currentDocument()}
+            entries={library}
+            onEntriesChange={updateLibrary}
+            onLoad={loadGraph}
+            onClose={() => setIsLibraryOpen(false)}
+        />
+      )}
     </div>
   );
 }
@@ -11,6 +11,8 @@ import { GoogleGenAI, Chat, GenerateContentResponse } from "@google/genai";
 interface AIInsightsPanelProps {
   nodes: Node[];
   edges: Edge[];
+  directed: boolean;
+  algorithmName: string;
   startNodeId: string;
   endNodeId: string;
 }
@@ -22,7 +24,7 @@ interface Message {
 
 type ModelType = 'gemini' | 'deepseek';
 
-const AIInsightsPanel: React.FC<AIInsightsPanelProps> = ({ nodes, edges, startNodeId, endNodeId }) => {
+const AIInsightsPanel: React.FC<AIInsightsPanelProps> = ({ nodes, edges, directed, algorithmName, startNodeId, endNodeId }) => {
   const [loading, setLoading] = useState(false);
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
@@ -56,7 +58,7 @@ const AIInsightsPanel: React.FC<AIInsightsPanelProps> = ({ nodes, edges, startNo
   // 配置变更时重置
   useEffect(() => {
     setGeminiChat(null);
-  }, [selectedModel, userApiKey]);
+  }, [selectedModel, userApiKey, algorithmName]);
 
   /**
    * 严格清洗 API Key
@@ -85,12 +87,12 @@ const AIInsightsPanel: React.FC<AIInsightsPanelProps> = ({ nodes, edges, startNo
     const edgesDesc = edges.map(e => {
       const s = nodes.find(n => n.id === e.source)?.label || e.source;
       const t = nodes.find(n => n.id === e.target)?.label || e.target;
-      return `${s} -> ${t} (权重: ${e.weight})`;
+      return `${s} ${directed ? '->' : '--'} ${t} (权重: ${e.weight})`;
     }).join('\n');
 
-    return `你是一位顶级运筹学专家。当前网络结构：\n${edgesDesc}\n
+    return `你是一位顶级运筹学专家。当前网络结构（${directed ? '有向图' : '无向图'}）：\n${edgesDesc}\n
 目标：分析从 ${startNode} 到 ${endNode} 的最短路径执行方案。
-算法：双标号法（Dijkstra变体）。
+算法：${algorithmName}。
 ${selectedModel === 'deepseek' 
   ? '思维模式：采用基础逻辑链，详尽解析每一个标号的变化及潜在路径排除逻辑。' 
   : '思维模式：采用 Gemini 2.5 核心策略，快速给出最优路径建议及算法关键点。'}
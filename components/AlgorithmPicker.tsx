@@ -0,0 +1,90 @@
+import React from 'react';
+import { AlgorithmDefinition, AlgorithmOptionValues, AlgorithmType } from '../types';
+
+interface AlgorithmPickerProps {
+  algorithms: AlgorithmDefinition[];
+  selected: AlgorithmDefinition;
+  onSelect: (id: AlgorithmType) => void;
+  options: AlgorithmOptionValues;
+  onOptionsChange: (options: AlgorithmOptionValues) => void;
+}
+
+const AlgorithmPicker: React.FC<AlgorithmPickerProps> = ({ algorithms, selected, onSelect, options, onOptionsChange }) => {
+  const featureTags = [
+    selected.features.negativeWeights ? '允许负权' : '权值非负',
+    selected.inputs.end === 'required' ? '需要终点' : '终点可选',
+    ...(selected.features.undirected ? [] : ['仅有向图']),
+    ...(selected.features.directed ? [] : ['仅无向图']),
+  ];
+
+  return (
+    <div className="px-4 py-2 border-b border-slate-100 bg-white flex-shrink-0">
+      <div className="flex flex-wrap gap-1">
+        {algorithms.map(algo => (
+          <button
+            key={algo.id}
+            onClick={() => onSelect(algo.id)}
+            className={`flex-1 px-2 py-1.5 rounded-lg text-xs font-bold whitespace-nowrap transition-all ${
+              selected.id === algo.id
+                ? 'bg-blue-600 text-white shadow-md'
+                : 'bg-slate-50 text-slate-500 hover:bg-slate-100'
+            }`}
+            title={algo.description}
+          >
+            {algo.shortName}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1 mt-2">
+        {featureTags.map(tag => (
+          <span key={tag} className="px-1.5 py-0.5 rounded text-[9px] font-bold bg-slate-100 text-slate-500">{tag}</span>
+        ))}
+      </div>
+
+      {selected.options && selected.options.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mt-2 text-[11px] text-slate-500">
+          {selected.options.map(field => (
+            <label key={field.key} className="flex items-center gap-1.5">
+              <span className="font-bold">{field.label}</span>
+              {field.type === 'select' && (
+                <select
+                  value={String(options[field.key] ?? field.default)}
+                  onChange={(e) => onOptionsChange({ ...options, [field.key]: e.target.value })}
+                  className="px-1.5 py-1 rounded-md border border-slate-200 bg-white"
+                >
+                  {field.choices?.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+                </select>
+              )}
+              {field.type === 'number' && (
+                <input
+                  type="number"
+                  min={field.min}
+                  step={field.step}
+                  value={Number(options[field.key] ?? field.default)}
+                  onChange={(e) => {
+                    const value = parseFloat(e.target.value);
+                    if (!isNaN(value) && (field.min === undefined || value >= field.min)) {
+                      onOptionsChange({ ...options, [field.key]: value });
+                    }
+                  }}
+                  className="w-20 px-1.5 py-1 rounded-md border border-slate-200 font-mono"
+                />
+              )}
+              {field.type === 'boolean' && (
+                <input
+                  type="checkbox"
+                  checked={Boolean(options[field.key] ?? field.default)}
+                  onChange={(e) => onOptionsChange({ ...options, [field.key]: e.target.checked })}
+                  className="accent-blue-600"
+                />
+              )}
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlgorithmPicker;
@@ -1,12 +1,13 @@
 import React from 'react';
-import { AlgorithmStep, Node } from '../types';
+import { AlgorithmStep, Node, StepColumn } from '../types';
 
 interface DataTableProps {
   currentStep: AlgorithmStep | null;
   nodes: Node[];
+  columns: StepColumn[];
 }
 
-const DataTable: React.FC<DataTableProps> = ({ currentStep, nodes }) => {
+const DataTable: React.FC<DataTableProps> = ({ currentStep, nodes, columns }) => {
   if (!currentStep) return (
     <div className="h-full flex items-center justify-center text-slate-400 italic text-sm">
         点击“开始计算”查看数据
@@ -21,9 +22,9 @@ const DataTable: React.FC<DataTableProps> = ({ currentStep, nodes }) => {
         <thead className="text-xs text-slate-500 uppercase bg-slate-50 sticky top-0">
           <tr>
             <th className="px-3 py-2 border-b">节点</th>
-            <th className="px-3 py-2 border-b">d (距离)</th>
-            <th className="px-3 py-2 border-b">p (前驱)</th>
-            <th className="px-3 py-2 border-b">状态</th>
+            {columns.map(col => (
+                <th key={col.key} className="px-3 py-2 border-b whitespace-nowrap">{col.header}</th>
+            ))}
           </tr>
         </thead>
         <tbody className="bg-white">
@@ -31,30 +32,26 @@ const DataTable: React.FC<DataTableProps> = ({ currentStep, nodes }) => {
                 const state = currentStep.nodeStates[node.id];
                 if (!state) return null;
                 const isPermanent = state.status === 'permanent';
-                const isStart = state.distance === 0 && state.parent === node.id;
-                
+                const context = { node, nodes, step: currentStep };
+
                 return (
                     <tr key={node.id} className={`border-b hover:bg-slate-50 transition-colors ${currentStep.activeNodeId === node.id ? 'bg-amber-50' : ''}`}>
                         <td className="px-3 py-2 font-medium text-slate-900">
                             {node.label}
                         </td>
-                        <td className="px-3 py-2 font-mono">
-                            {state.distance === Infinity ? '∞' : state.distance}
-                        </td>
-                        <td className="px-3 py-2">
-                             {state.parent ? (
-                                 state.parent === node.id ? '-' : `${nodes.find(n => n.id === state.parent)?.label}`
-                             ) : '-'}
-                        </td>
-                        <td className="px-3 py-2">
-                            <span className={`px-2 py-0.5 rounded-full text-xs font-bold ${
-                                isPermanent 
-                                    ? 'bg-blue-100 text-blue-700' 
-                                    : 'bg-amber-100 text-amber-700'
-                            }`}>
-                                {isPermanent ? 'P (永久)' : 'T (临时)'}
-                            </span>
-                        </td>
+                        {columns.map(col => (
+                            <td key={col.key} className={`px-3 py-2 ${col.mono ? 'font-mono' : ''}`}>
+                                {col.badge ? (
+                                    <span className={`px-2 py-0.5 rounded-full text-xs font-bold whitespace-nowrap ${
+                                        isPermanent
+                                            ? 'bg-blue-100 text-blue-700'
+                                            : 'bg-amber-100 text-amber-700'
+                                    }`}>
+                                        {col.value(state, context)}
+                                    </span>
+                                ) : col.value(state, context)}
+                            </td>
+                        ))}
                     </tr>
                 );
             })}
@@ -64,4 +61,4 @@ const DataTable: React.FC<DataTableProps> = ({ currentStep, nodes }) => {
   );
 };
 
-export default DataTable;
\ No newline at end of file
+export default DataTable;
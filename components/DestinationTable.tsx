@@ -0,0 +1,66 @@
+import React from 'react';
+import { Node, ResultPath } from '../types';
+import { PATH_COLORS } from '../constants';
+import { Route } from 'lucide-react';
+
+interface DestinationTableProps {
+  title: string;
+  paths: ResultPath[];
+  nodes: Node[];
+  selected: number[];
+  onToggle: (index: number) => void;
+}
+
+// One row per destination of a shortest-path tree: distance, hop count and the tree path
+const DestinationTable: React.FC<DestinationTableProps> = ({ title, paths, nodes, selected, onToggle }) => {
+  const labelOf = (id: string) => nodes.find(n => n.id === id)?.label ?? id;
+
+  return (
+    <div className="border-b border-slate-100 bg-white flex-shrink-0">
+      <div className="px-4 py-2 flex items-center gap-2 text-xs font-bold text-slate-700">
+        <Route size={14} className="text-blue-600" />
+        {title}
+        <span className="text-[10px] font-medium text-slate-300">({paths.length})</span>
+      </div>
+      <div className="max-h-[160px] overflow-y-auto border-t border-slate-50 custom-scrollbar">
+        <table className="w-full text-[11px] text-left border-collapse">
+          <thead className="text-[10px] text-slate-400 bg-slate-50 sticky top-0">
+            <tr>
+              <th className="px-3 py-1.5">目的地</th>
+              <th className="px-3 py-1.5">距离</th>
+              <th className="px-3 py-1.5">跳数</th>
+              <th className="px-3 py-1.5">路径</th>
+            </tr>
+          </thead>
+          <tbody>
+            {paths.map((path, idx) => {
+              const isSelected = selected.includes(idx);
+              return (
+                <tr
+                  key={path.nodeIds[path.nodeIds.length - 1]}
+                  onClick={() => onToggle(idx)}
+                  className={`border-b border-slate-50 cursor-pointer transition-colors ${
+                    isSelected ? 'bg-slate-50 font-bold text-slate-900' : 'text-slate-500 hover:bg-slate-50'
+                  }`}
+                >
+                  <td className="px-3 py-1.5 flex items-center gap-2">
+                    <span
+                      className="w-2 h-2 rounded-full flex-shrink-0"
+                      style={{ backgroundColor: isSelected ? PATH_COLORS[idx % PATH_COLORS.length] : '#e2e8f0' }}
+                    ></span>
+                    {labelOf(path.nodeIds[path.nodeIds.length - 1])}
+                  </td>
+                  <td className="px-3 py-1.5 font-mono">{path.cost}</td>
+                  <td className="px-3 py-1.5 font-mono">{path.nodeIds.length - 1}</td>
+                  <td className="px-3 py-1.5 truncate max-w-[160px]">{path.nodeIds.map(labelOf).join(' → ')}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default DestinationTable;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { FrontierEntry, Node } from '../types';
+import { Layers } from 'lucide-react';
+
+interface FrontierPanelProps {
+  frontier: FrontierEntry[];
+  nodes: Node[];
+}
+
+// The priority queue ("open list") of the current step, smallest key on the left
+const FrontierPanel: React.FC<FrontierPanelProps> = ({ frontier, nodes }) => {
+  const labelOf = (id: string) => nodes.find(n => n.id === id)?.label ?? id;
+  const fmt = (v: number) => Math.round(v * 100) / 100;
+
+  return (
+    <div className="px-4 py-2 border-b border-slate-100 bg-white flex-shrink-0">
+      <div className="flex items-center gap-2 text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1.5">
+        <Layers size={12} /> 优先队列（开放列表）
+        <span className="font-medium normal-case tracking-normal text-slate-300">{frontier.length} 个</span>
+      </div>
+      {frontier.length === 0 ? (
+        <div className="text-[11px] text-slate-300 italic">队列为空</div>
+      ) : (
+        <div className="flex gap-1.5 overflow-x-auto pb-1 custom-scrollbar">
+          {frontier.map((entry, idx) => (
+            <div
+              key={entry.nodeId}
+              className={`flex-shrink-0 px-2 py-1 rounded-md text-[11px] border font-mono ${
+                idx === 0
+                  ? 'bg-amber-500 border-amber-500 text-white font-bold shadow-sm'
+                  : 'bg-slate-50 border-slate-200 text-slate-600'
+              }`}
+              title={idx === 0 ? '队首：下一个被选定的节点' : undefined}
+            >
+              {labelOf(entry.nodeId)}:{fmt(entry.priority)}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FrontierPanel;
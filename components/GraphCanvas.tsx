@@ -1,33 +1,53 @@
-import React, { useRef, useState } from 'react';
-import { Node, Edge, EditorMode, AlgorithmNodeState } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { Node, Edge, EditorMode, CanvasScene, CanvasStepState, PathHighlight, EdgeWeightDefaults, Viewport, Selection } from '../types';
 import { COLORS } from '../constants';
+import { NODE_RADIUS, getEdgeShape } from '../services/geometry';
+import { getNewEdgeWeight, parseEdgeWeight } from '../services/graph';
+import {
+  getArrowMarkers, getNodeColor, getNodeStroke, getNodeStrokeWidth, getNodeLabelText, getBackwardLabelText, getEdgeStyle,
+} from '../services/canvasStyle';
+import { IDENTITY_VIEW, centerOn, fitToContent, getVisibleRect, zoomAt } from '../services/viewport';
+import {
+  isNodeSelected, mergeSelections, selectEdge, selectInRect, selectNode, toggleEdge, toggleNode,
+} from '../services/selection';
+import { ARROW_DIRECTIONS, findNearestNode, findNodeInDirection, getIncidentEdges } from '../services/canvasNavigation';
+import { describeEdge, describeNode } from '../services/narration';
+import Minimap from './Minimap';
+import { ZoomIn, ZoomOut, Maximize } from 'lucide-react';
 
 interface GraphCanvasProps {
   nodes: Node[];
   edges: Edge[];
+  directed: boolean;
   onNodesChange: (nodes: Node[]) => void;
   onEdgesChange: (edges: Edge[]) => void;
+  onNodesDrag: (nodes: Node[]) => void; // Intermediate positions while a node is dragged
+  onDragEnd: () => void;
   mode: EditorMode;
   startNodeId: string | null;
   endNodeId: string | null;
   setStartNodeId: (id: string) => void;
   setEndNodeId: (id: string) => void;
-  currentStepState: {
-    activeNodeId: string | null;
-    checkingEdgeId: string | null;
-    nodeStates: Record<string, AlgorithmNodeState>;
-  } | null;
+  currentStepState: CanvasStepState | null;
   showLabels: boolean;
+  pathHighlights?: PathHighlight[];
   resetAlgorithm: () => void;
-  selection: { type: 'node' | 'edge', id: string } | null;
-  onSelect: (sel: { type: 'node' | 'edge', id: string } | null) => void;
+  selection: Selection | null;
+  onSelect: (sel: Selection | null) => void;
+  edgeWeightDefaults: EdgeWeightDefaults;
+  allowNegativeWeights: boolean;
+  layoutTransition: number; // Bumped when an automatic layout moved the nodes; the canvas animates the move
+  onAnnounce: (text: string) => void; // Read out by the screen-reader live region
 }
 
 const GraphCanvas: React.FC<GraphCanvasProps> = ({
   nodes,
   edges,
+  directed,
   onNodesChange,
   onEdgesChange,
+  onNodesDrag,
+  onDragEnd,
   mode,
   startNodeId,
   endNodeId,
@@ -35,28 +55,139 @@ const GraphCanvas: React.FC<GraphCanvasProps> = ({
   setEndNodeId,
   currentStepState,
   showLabels,
+  pathHighlights = [],
   resetAlgorithm,
   selection,
-  onSelect
+  onSelect,
+  edgeWeightDefaults,
+  allowNegativeWeights,
+  layoutTransition,
+  onAnnounce
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
-  const [dragState, setDragState] = useState<{ nodeId: string, startX: number, startY: number } | null>(null);
+  const viewportRef = useRef<SVGGElement>(null); // Carries the pan/zoom transform
+  const [view, setView] = useState<Viewport>(IDENTITY_VIEW);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [panState, setPanState] = useState<{ clientX: number, clientY: number, x: number, y: number } | null>(null);
+  const panMoved = useRef(false); // A pan that moved swallows the click that ends it
+  // Nodes being dragged with their positions at the press; they move by the pointer's offset from `origin`
+  const [dragState, setDragState] = useState<{ origin: { x: number, y: number }, positions: Record<string, { x: number, y: number }> } | null>(null);
+  // Shift+drag selection box, in graph coordinates
+  const [boxState, setBoxState] = useState<{ x1: number, y1: number, x2: number, y2: number } | null>(null);
   const [hoverNode, setHoverNode] = useState<string | null>(null);
   const [edgeStart, setEdgeStart] = useState<string | null>(null);
+  const leftEdgeStart = useRef(false); // The edge drag has left its node, so releasing back on it draws a self-loop
   const [mousePos, setMousePos] = useState<{ x: number, y: number } | null>(null);
+  // Weight label being edited in place after a double-click
+  const [weightEdit, setWeightEdit] = useState<{ edgeId: string, text: string, error: string | null } | null>(null);
+  const [hasFocus, setHasFocus] = useState(false);
+  const wasEditingWeight = useRef(false);
+  const edgeAnchor = useRef<string | null>(null); // Node whose edges [ and ] step through
+  const nudging = useRef(false); // Shift+arrow moves are recorded as one move when the key is released
+
+  // Positions shown while a layout transition runs; null when the canvas shows `nodes` as they are
+  const [animatedNodes, setAnimatedNodes] = useState<Node[] | null>(null);
+  const drawnNodes = animatedNodes ?? nodes;
+  const lastDrawn = useRef(drawnNodes);
+  lastDrawn.current = drawnNodes;
+
+  useEffect(() => {
+    if (layoutTransition === 0) return;
+    const from = new Map<string, Node>(lastDrawn.current.map(n => [n.id, n]));
+    const to = nodes;
+    const started = performance.now();
+    let frame = 0;
+    const tick = (now: number) => {
+      const t = Math.min(1, (now - started) / 450);
+      const eased = 1 - Math.pow(1 - t, 3);
+      if (t >= 1) {
+        setAnimatedNodes(null);
+        return;
+      }
+      setAnimatedNodes(to.map(n => {
+        const old = from.get(n.id);
+        return old ? { ...n, x: old.x + (n.x - old.x) * eased, y: old.y + (n.y - old.y) * eased } : n;
+      }));
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [layoutTransition]);
+
+  // Closing the weight editor drops focus on the page body; hand it back so keyboard editing can go on
+  useEffect(() => {
+    if (wasEditingWeight.current && !weightEdit && document.activeElement === document.body) svgRef.current?.focus();
+    wasEditingWeight.current = weightEdit !== null;
+  }, [weightEdit]);
 
   // Helper to get node coordinates
-  const getNodePos = (id: string) => nodes.find(n => n.id === id) || { x: 0, y: 0 };
+  const getNodePos = (id: string) => drawnNodes.find(n => n.id === id) || { x: 0, y: 0 };
+
+  // Screen position -> graph coordinates; the viewport group's CTM includes the pan and zoom
+  const toGraphPoint = (clientX: number, clientY: number) => {
+    const svg = svgRef.current;
+    const viewport = viewportRef.current;
+    if (!svg || !viewport) return null;
+    const point = svg.createSVGPoint();
+    point.x = clientX;
+    point.y = clientY;
+    return point.matrixTransform(viewport.getScreenCTM()?.inverse());
+  };
+
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const observer = new ResizeObserver(() => setSize({ width: svg.clientWidth, height: svg.clientHeight }));
+    observer.observe(svg);
+    // React registers wheel listeners as passive, so page scrolling could not be prevented there
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const factor = Math.exp(-e.deltaY * (e.deltaMode === 1 ? 0.05 : 0.0015));
+      setView(v => zoomAt(v, e.clientX - rect.left, e.clientY - rect.top, factor));
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => {
+      observer.disconnect();
+      svg.removeEventListener('wheel', handleWheel);
+    };
+  }, []);
+
+  const zoomBy = (factor: number) => setView(v => zoomAt(v, size.width / 2, size.height / 2, factor));
+  const fitView = () => setView(fitToContent(nodes, size.width, size.height));
+
+  // Node presses stop propagation, so this only sees presses on the background or an edge.
+  // A plain drag pans the view; Shift+drag draws a selection box.
+  const handleBackgroundMouseDown = (e: React.MouseEvent) => {
+    panMoved.current = false;
+    if (mode !== EditorMode.SELECT || e.button !== 0) return;
+    if (e.shiftKey) {
+      const point = toGraphPoint(e.clientX, e.clientY);
+      if (point) setBoxState({ x1: point.x, y1: point.y, x2: point.x, y2: point.y });
+      return;
+    }
+    setPanState({ clientX: e.clientX, clientY: e.clientY, x: view.x, y: view.y });
+  };
 
   const handleMouseDown = (e: React.MouseEvent, nodeId?: string) => {
     // If clicking a node
     if (nodeId) {
         if (mode === EditorMode.SELECT) {
-            setDragState({ nodeId, startX: e.clientX, startY: e.clientY });
-            onSelect({ type: 'node', id: nodeId });
+            if (e.shiftKey) {
+                onSelect(toggleNode(selection, nodeId));
+            } else {
+                // Pressing a node of a multi-selection drags the whole selection
+                const group = isNodeSelected(selection, nodeId) ? selection! : selectNode(nodeId);
+                if (group !== selection) onSelect(group);
+                const origin = toGraphPoint(e.clientX, e.clientY);
+                const positions: Record<string, { x: number, y: number }> = {};
+                nodes.forEach(n => { if (group.nodeIds.includes(n.id)) positions[n.id] = { x: n.x, y: n.y }; });
+                if (origin) setDragState({ origin: { x: origin.x, y: origin.y }, positions });
+            }
         } else if (mode === EditorMode.ADD_EDGE) {
             e.stopPropagation(); // Stop propagation to prevent immediate cancel
             setEdgeStart(nodeId);
+            leftEdgeStart.current = false;
             const pos = getNodePos(nodeId);
             setMousePos({ x: pos.x, y: pos.y });
         } else if (mode === EditorMode.SET_START) {
@@ -69,28 +200,53 @@ const GraphCanvas: React.FC<GraphCanvasProps> = ({
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
-    const svg = svgRef.current;
-    if (!svg) return;
-    const point = svg.createSVGPoint();
-    point.x = e.clientX;
-    point.y = e.clientY;
-    const svgPoint = point.matrixTransform(svg.getScreenCTM()?.inverse());
+    if (panState) {
+      const dx = e.clientX - panState.clientX;
+      const dy = e.clientY - panState.clientY;
+      if (Math.abs(dx) + Math.abs(dy) > 3) panMoved.current = true;
+      setView(v => ({ ...v, x: panState.x + dx, y: panState.y + dy }));
+      return;
+    }
+    const svgPoint = toGraphPoint(e.clientX, e.clientY);
+    if (!svgPoint) return;
     setMousePos({ x: svgPoint.x, y: svgPoint.y });
 
+    if (boxState) {
+      setBoxState({ ...boxState, x2: svgPoint.x, y2: svgPoint.y });
+      return;
+    }
+
+    if (edgeStart && !leftEdgeStart.current) {
+      const start = getNodePos(edgeStart);
+      leftEdgeStart.current = Math.hypot(svgPoint.x - start.x, svgPoint.y - start.y) > NODE_RADIUS * 2;
+    }
+
     if (dragState) {
-      const updatedNodes = nodes.map(n => 
-        n.id === dragState.nodeId 
-          ? { ...n, x: svgPoint.x, y: svgPoint.y }
-          : n
-      );
-      onNodesChange(updatedNodes);
+      const dx = svgPoint.x - dragState.origin.x;
+      const dy = svgPoint.y - dragState.origin.y;
+      const updatedNodes = nodes.map(n => {
+        const start = dragState.positions[n.id];
+        return start ? { ...n, x: start.x + dx, y: start.y + dy } : n;
+      });
+      onNodesDrag(updatedNodes);
     }
   };
 
   const handleMouseUp = (e: React.MouseEvent, targetNodeId?: string) => {
+    setPanState(null);
+    if (boxState) {
+      // The box adds to the selection, like Shift+click; the click that follows is ignored
+      const boxed = selectInRect({ nodes, edges, startNodeId: '', endNodeId: '', directed }, boxState);
+      if (Math.abs(boxState.x2 - boxState.x1) + Math.abs(boxState.y2 - boxState.y1) > 3) {
+        onSelect(mergeSelections(selection, boxed));
+        panMoved.current = true;
+      }
+      setBoxState(null);
+    }
     // 1. Handle Node Dragging End
     if (dragState) {
       setDragState(null);
+      onDragEnd();
     }
     
     // 2. Handle Add Edge End
@@ -98,52 +254,49 @@ const GraphCanvas: React.FC<GraphCanvasProps> = ({
         e.stopPropagation(); // Ensure we handle the drop here
         
         // If we released over a valid target node different from start
-        if (targetNodeId && targetNodeId !== edgeStart) {
-            const start = edgeStart;
-            const target = targetNodeId;
-
-            const exists = edges.some(edge => 
-                (edge.source === start && edge.target === target) ||
-                (edge.source === target && edge.target === start)
-            );
-            
-            if (!exists) {
-                // 随机生成 2-10 的整数权重
-                const weight = Math.floor(Math.random() * 9) + 2;
-
-                const newEdge: Edge = {
-                    id: `e-${Date.now()}`,
-                    source: start,
-                    target: target,
-                    weight: weight
-                };
-                onEdgesChange([...edges, newEdge]);
-            }
-        }
+        // Back on the start node after leaving it draws a self-loop; a plain click does nothing
+        if (targetNodeId && (targetNodeId !== edgeStart || leftEdgeStart.current)) addEdge(edgeStart, targetNodeId);
         setEdgeStart(null);
     }
   };
 
+  // Parallel edges and self-loops are allowed: multigraphs model e.g. two roads between two towns
+  const addEdge = (start: string, target: string) => {
+    const weight = getNewEdgeWeight(getNodePos(start), getNodePos(target), edgeWeightDefaults);
+    const newEdge: Edge = {
+        id: `e-${Date.now()}`,
+        source: start,
+        target: target,
+        weight: weight
+    };
+    onEdgesChange([...edges, newEdge]);
+    return newEdge;
+  };
+
+  const addNode = (x: number, y: number) => {
+    // Find next available ID
+    const maxId = nodes.reduce((max, n) => Math.max(max, parseInt(n.id) || 0), 0);
+    const nextId = (maxId + 1).toString();
+    
+    const newNode: Node = {
+        id: nextId,
+        x: x,
+        y: y,
+        label: `v${nextId}`
+    };
+    onNodesChange([...nodes, newNode]);
+    return newNode;
+  };
+
   const handleBgClick = (e: React.MouseEvent) => {
+     if (panMoved.current) {
+        panMoved.current = false;
+        return;
+     }
      if (mode === EditorMode.ADD_NODE) {
-        const svg = svgRef.current;
-        if (!svg) return;
-        const point = svg.createSVGPoint();
-        point.x = e.clientX;
-        point.y = e.clientY;
-        const svgPoint = point.matrixTransform(svg.getScreenCTM()?.inverse());
-        
-        // Find next available ID
-        const maxId = nodes.reduce((max, n) => Math.max(max, parseInt(n.id) || 0), 0);
-        const nextId = (maxId + 1).toString();
-        
-        const newNode: Node = {
-            id: nextId,
-            x: svgPoint.x,
-            y: svgPoint.y,
-            label: `v${nextId}`
-        };
-        onNodesChange([...nodes, newNode]);
+        const svgPoint = toGraphPoint(e.clientX, e.clientY);
+        if (!svgPoint) return;
+        addNode(svgPoint.x, svgPoint.y);
      } else {
          // Clear edge start if clicking background
          setEdgeStart(null);
@@ -152,228 +305,476 @@ const GraphCanvas: React.FC<GraphCanvasProps> = ({
      }
   };
 
-  // Node Colors
-  const getNodeColor = (nodeId: string) => {
-    if (currentStepState) {
-      const state = currentStepState.nodeStates[nodeId];
-      if (currentStepState.activeNodeId === nodeId) return COLORS.warning;
-      if (state?.status === 'permanent') return COLORS.permanent;
-      if (state?.status === 'temporary' && state.distance !== Infinity) return COLORS.temporary;
-      return COLORS.unvisited;
+  const commitWeightEdit = (cancelOnError: boolean) => {
+    if (!weightEdit) return;
+    const parsed = parseEdgeWeight(weightEdit.text, allowNegativeWeights);
+    if ('error' in parsed) {
+      setWeightEdit(cancelOnError ? null : { ...weightEdit, error: parsed.error });
+      return;
     }
-    if (nodeId === startNodeId) return COLORS.start;
-    if (nodeId === endNodeId) return COLORS.end;
-    return COLORS.primary;
+    const edge = edges.find(e => e.id === weightEdit.edgeId);
+    if (edge && edge.weight !== parsed.weight) {
+      onEdgesChange(edges.map(e => (e.id === weightEdit.edgeId ? { ...e, weight: parsed.weight } : e)));
+    }
+    setWeightEdit(null);
   };
 
-  const getNodeStroke = (nodeId: string) => {
-      const isSelected = selection?.type === 'node' && selection.id === nodeId;
-      if (isSelected) return '#000'; // Black stroke for selection
-
-      if (nodeId === startNodeId) return COLORS.success;
-      if (nodeId === endNodeId) return COLORS.danger;
-      return '#fff';
-  }
-
-  const getNodeStrokeWidth = (nodeId: string) => {
-      const isSelected = selection?.type === 'node' && selection.id === nodeId;
-      const isActive = currentStepState?.activeNodeId === nodeId;
-      if (isSelected) return 3;
-      if (isActive) return 4;
-      return 3;
-  }
-
-  const getNodeLabelText = (node: Node) => {
-    if (currentStepState) {
-      const state = currentStepState.nodeStates[node.id];
-      const d = state?.distance === Infinity ? '∞' : state?.distance;
-      const pId = state?.parent;
-      const pLabel = pId ? nodes.find(n => n.id === pId)?.label : '-';
-      return `[${d}, ${pLabel}]`;
+  const scene: CanvasScene = { nodes: drawnNodes, edges, directed, startNodeId, endNodeId, stepState: currentStepState, pathHighlights, selection };
+
+  // --- Keyboard editing: the single selected element doubles as the keyboard focus ---
+
+  const focusedNode = nodes.find(n => n.id === selection?.nodeIds[selection.nodeIds.length - 1]);
+  const focusedEdge = !focusedNode ? edges.find(e => e.id === selection?.edgeIds[selection.edgeIds.length - 1]) : undefined;
+  const labelOf = (id: string) => nodes.find(n => n.id === id)?.label ?? id;
+  // The end of an edge that [ and ] pivot around; a stale anchor from an earlier edge is ignored
+  const anchorOf = (edge: Edge) => (edgeAnchor.current === edge.target ? edge.target : edge.source);
+
+  // Pans just enough to bring a point that left the visible area back to the centre
+  const reveal = (x: number, y: number) => {
+    const visible = getVisibleRect(view, size.width, size.height);
+    const margin = 40 / view.k;
+    if (x < visible.x + margin || x > visible.x + visible.width - margin || y < visible.y + margin || y > visible.y + visible.height - margin) {
+      setView(v => centerOn(v, x, y, size.width, size.height));
     }
-    return node.label;
   };
 
-  const getEdgeStyle = (edge: Edge) => {
-    const isChecking = currentStepState?.checkingEdgeId === edge.id;
-    const isSelected = selection?.type === 'edge' && selection.id === edge.id;
-    let isPath = false;
-    
-    if (currentStepState) {
-        const sState = currentStepState.nodeStates[edge.source];
-        const tState = currentStepState.nodeStates[edge.target];
-        if (tState?.parent === edge.source && tState.status === 'permanent') isPath = true;
-        if (sState?.parent === edge.target && sState.status === 'permanent') isPath = true;
+  const focusNode = (node: Node) => {
+    onSelect(selectNode(node.id));
+    reveal(node.x, node.y);
+    const hint = !edgeStart ? '' : edgeStart === node.id ? '。按回车在此节点添加自环' : `。按回车连接 ${labelOf(edgeStart)} 与此节点`;
+    onAnnounce(describeNode(scene, node) + hint);
+  };
+
+  const focusEdge = (edge: Edge) => {
+    onSelect(selectEdge(edge.id));
+    const s = getNodePos(edge.source);
+    const t = getNodePos(edge.target);
+    reveal((s.x + t.x) / 2, (s.y + t.y) / 2);
+    onAnnounce(`${describeEdge(scene, edge)}。按回车修改权值`);
+  };
+
+  const editWeight = (edge: Edge) => setWeightEdit({ edgeId: edge.id, text: String(edge.weight), error: null });
+
+  // Enter acts on the focused element according to the editing mode
+  const activate = () => {
+    if (mode === EditorMode.ADD_NODE) {
+      const visible = getVisibleRect(view, size.width, size.height);
+      const at = focusedNode ? { x: focusedNode.x + 100, y: focusedNode.y } : { x: visible.x + visible.width / 2, y: visible.y + visible.height / 2 };
+      const node = addNode(at.x, at.y);
+      onSelect(selectNode(node.id));
+      reveal(node.x, node.y);
+      onAnnounce(`已添加节点 ${node.label}`);
+      return;
+    }
+    if (focusedEdge) {
+      editWeight(focusedEdge);
+      return;
+    }
+    if (!focusedNode) {
+      onAnnounce('没有选中的节点，请先用方向键选择');
+      return;
     }
+    if (mode === EditorMode.SET_START) {
+      setStartNodeId(focusedNode.id);
+      onAnnounce(`${focusedNode.label} 已设为起点`);
+    } else if (mode === EditorMode.SET_END) {
+      setEndNodeId(focusedNode.id);
+      onAnnounce(`${focusedNode.label} 已设为终点`);
+    } else if (mode === EditorMode.ADD_EDGE) {
+      if (!edgeStart) {
+        setEdgeStart(focusedNode.id);
+        setMousePos({ x: focusedNode.x, y: focusedNode.y });
+        onAnnounce(`从 ${focusedNode.label} 开始连线，用方向键选择另一端后按回车（在原节点按回车添加自环），Esc 取消`);
+        return;
+      }
+      const parallel = edges.filter(e =>
+        (e.source === edgeStart && e.target === focusedNode.id) || (e.source === focusedNode.id && e.target === edgeStart)).length;
+      const edge = addEdge(edgeStart, focusedNode.id);
+      const added = edgeStart === focusedNode.id
+        ? `已在 ${focusedNode.label} 添加自环`
+        : `已添加 ${labelOf(edgeStart)} 到 ${focusedNode.label} 的边${parallel > 0 ? `（与已有的 ${parallel} 条边平行）` : ''}`;
+      onAnnounce(`${added}，权值 ${edge.weight}，输入新权值后按回车`);
+      setEdgeStart(null);
+      editWeight(edge);
+    } else {
+      onAnnounce(describeNode(scene, focusedNode));
+    }
+  };
 
-    return {
-      stroke: isSelected ? '#ef4444' : (isChecking ? COLORS.warning : (isPath ? COLORS.primary : '#94a3b8')),
-      strokeWidth: isSelected ? 4 : (isPath ? 4 : (isChecking ? 3 : 2)),
-      opacity: (currentStepState && !isPath && !isChecking) ? 0.3 : 1,
-      dash: isSelected ? "5,5" : ""
-    };
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (weightEdit || e.ctrlKey || e.metaKey || e.altKey) return;
+    const direction = ARROW_DIRECTIONS[e.key];
+    if (direction) {
+      e.preventDefault();
+      if (e.shiftKey) {
+        // Nudge the selected nodes; the move is recorded when the key is released
+        if (mode !== EditorMode.SELECT || !selection || selection.nodeIds.length === 0) return;
+        const step = { left: [-10, 0], right: [10, 0], up: [0, -10], down: [0, 10] }[direction];
+        nudging.current = true;
+        onNodesDrag(nodes.map(n => (selection.nodeIds.includes(n.id) ? { ...n, x: n.x + step[0], y: n.y + step[1] } : n)));
+        return;
+      }
+      const from = focusedNode ?? (focusedEdge && nodes.find(n => n.id === anchorOf(focusedEdge)));
+      if (!from) {
+        const visible = getVisibleRect(view, size.width, size.height);
+        const nearest = findNearestNode(nodes, visible.x + visible.width / 2, visible.y + visible.height / 2);
+        if (nearest) focusNode(nearest);
+        else onAnnounce('画布上还没有节点');
+        return;
+      }
+      const next = findNodeInDirection(nodes, from, direction);
+      if (next) focusNode(next);
+      else if (from !== focusedNode) focusNode(from);
+      else onAnnounce('这个方向没有其他节点');
+      return;
+    }
+    switch (e.key) {
+      case ']':
+      case '[': {
+        const anchor = focusedNode?.id ?? (focusedEdge && anchorOf(focusedEdge));
+        if (!anchor) return;
+        const incident = getIncidentEdges(nodes, edges, anchor);
+        if (incident.length === 0) {
+          onAnnounce(`${labelOf(anchor)} 没有关联的边`);
+          return;
+        }
+        edgeAnchor.current = anchor;
+        const index = focusedEdge ? incident.findIndex(edge => edge.id === focusedEdge.id) : -1;
+        const next = e.key === ']'
+          ? incident[(index + 1) % incident.length]
+          : incident[(index <= 0 ? incident.length : index) - 1];
+        focusEdge(next);
+        break;
+      }
+      case 'Enter':
+      case ' ':
+        e.preventDefault();
+        activate();
+        break;
+      case 'F2':
+        if (focusedEdge) {
+          e.preventDefault();
+          editWeight(focusedEdge);
+        }
+        break;
+      case 'Escape':
+        if (edgeStart) {
+          setEdgeStart(null);
+          onAnnounce('已取消连线');
+        } else if (focusedEdge) {
+          // Back from an edge to the node it was reached from
+          const anchorNode = nodes.find(n => n.id === anchorOf(focusedEdge));
+          if (anchorNode) focusNode(anchorNode);
+        } else if (selection) {
+          onSelect(null);
+          onAnnounce('已取消选择');
+        }
+        break;
+    }
+  };
+
+  const handleKeyUp = (e: React.KeyboardEvent) => {
+    if (nudging.current && (ARROW_DIRECTIONS[e.key] || e.key === 'Shift')) {
+      nudging.current = false;
+      onDragEnd();
+    }
   };
 
   return (
     <div className={`w-full h-full bg-slate-50 relative overflow-hidden select-none ${mode === EditorMode.ADD_EDGE ? 'cursor-crosshair' : ''}`}>
         {/* Instruction overlay */}
         <div className="absolute top-4 left-4 bg-white/90 backdrop-blur px-4 py-2 rounded-lg shadow text-sm text-slate-600 pointer-events-none z-10 border border-slate-200">
-            {mode === EditorMode.SELECT && "拖动移动节点，点击选中，使用工具栏删除。"}
+            {mode === EditorMode.SELECT && "拖动移动节点，Shift+点击或 Shift+拖动框选多个，拖动空白处平移，滚轮缩放。"}
             {mode === EditorMode.ADD_NODE && "点击空白处添加节点。"}
-            {mode === EditorMode.ADD_EDGE && "按住鼠标左键，从一个节点拖到另一个节点添加边。"}
+            {mode === EditorMode.ADD_EDGE && "按住鼠标左键，从一个节点拖到另一个节点添加边；拖出后回到原节点松开添加自环。"}
             {mode === EditorMode.SET_START && "点击节点设为起点 (绿色)。"}
             {mode === EditorMode.SET_END && "点击节点设为终点 (红色)。"}
+            {hasFocus && (
+                <div className="mt-1 text-xs text-slate-400">
+                    键盘：方向键选择节点，[ ] 切换关联边，回车执行当前工具（添加、连线、设起终点、改权值），Shift+方向键移动，Esc 取消。
+                </div>
+            )}
         </div>
 
       <svg 
         ref={svgRef}
-        className="w-full h-full"
+        className={`w-full h-full outline-none focus-visible:outline focus-visible:outline-2 focus-visible:-outline-offset-2 focus-visible:outline-blue-300 ${mode === EditorMode.SELECT ? (panState ? 'cursor-grabbing' : 'cursor-grab') : ''}`}
+        onMouseDown={handleBackgroundMouseDown}
         onMouseMove={handleMouseMove}
         onMouseUp={(e) => handleMouseUp(e)} // Global mouse up to catch drops outside
+        onMouseLeave={() => { setPanState(null); setBoxState(null); }}
         onClick={handleBgClick}
+        tabIndex={0}
+        role="application"
+        aria-roledescription="图编辑画布"
+        aria-label={`图编辑画布，${nodes.length} 个节点，${edges.length} 条边。方向键选择节点，[ 和 ] 切换关联边，回车执行当前工具`}
+        aria-activedescendant={focusedNode ? `graph-node-${focusedNode.id}` : focusedEdge ? `graph-edge-${focusedEdge.id}` : undefined}
+        onKeyDown={handleKeyDown}
+        onKeyUp={handleKeyUp}
+        onFocus={() => setHasFocus(true)}
+        onBlur={() => setHasFocus(false)}
       >
         <defs>
-          <marker id="arrowhead" markerWidth="10" markerHeight="7" refX="28" refY="3.5" orient="auto">
-            <polygon points="0 0, 10 3.5, 0 7" fill="#94a3b8" />
-          </marker>
+          {getArrowMarkers(scene).map(m => (
+            <marker key={m.id} id={m.id} markerWidth="12" markerHeight="9" refX="10" refY="4.5" orient="auto" markerUnits="userSpaceOnUse">
+              <polygon points="0 0, 12 4.5, 0 9" fill={m.fill} />
+            </marker>
+          ))}
         </defs>
 
-        {/* 1. Edges (Lines) - Rendered First */}
-        {edges.map(edge => {
-          const s = getNodePos(edge.source);
-          const t = getNodePos(edge.target);
-          const style = getEdgeStyle(edge);
+        <g ref={viewportRef} transform={`translate(${view.x}, ${view.y}) scale(${view.k})`}>
+
+          {/* 1. Edges (Lines) - Rendered First */}
+          {edges.map(edge => {
+            const s = getNodePos(edge.source);
+            const t = getNodePos(edge.target);
+            const style = getEdgeStyle(scene, edge);
+            const geometry = getEdgeShape(edge, edges, s, t, directed);
           
-          return (
-            <g 
-                key={edge.id}
-                onClick={(e) => {
-                    if (mode === EditorMode.SELECT) {
-                        e.stopPropagation();
-                        onSelect({ type: 'edge', id: edge.id });
-                    }
-                }}
-                className={mode === EditorMode.SELECT ? "cursor-pointer" : ""}
-            >
-                {/* Transparent wider stroke for easier clicking */}
-                <line 
-                    x1={s.x} y1={s.y} x2={t.x} y2={t.y} 
-                    stroke="transparent" 
-                    strokeWidth="20"
-                >
-                    <title>点击选中</title>
-                </line>
+            return (
+              <g 
+                  key={edge.id}
+                  id={`graph-edge-${edge.id}`}
+                  role="img"
+                  aria-label={describeEdge(scene, edge)}
+                  onClick={(e) => {
+                      if (mode === EditorMode.SELECT) {
+                          e.stopPropagation();
+                          onSelect(e.shiftKey ? toggleEdge(selection, edge.id) : selectEdge(edge.id));
+                      }
+                  }}
+                  className={mode === EditorMode.SELECT ? "cursor-pointer" : ""}
+              >
+                  {/* Transparent wider stroke for easier clicking */}
+                  <path 
+                      d={geometry.path}
+                      fill="none"
+                      stroke="transparent" 
+                      strokeWidth="20"
+                  >
+                      <title>点击选中</title>
+                  </path>
                 
-                {/* Visible line */}
-                <line 
-                    x1={s.x} y1={s.y} x2={t.x} y2={t.y} 
-                    stroke={style.stroke} 
-                    strokeWidth={style.strokeWidth}
-                    opacity={style.opacity}
-                    strokeDasharray={style.dash}
-                    className="pointer-events-none transition-all duration-300"
-                />
-            </g>
-          );
-        })}
-
-        {/* 2. Drag Line (Temporary) - Visible during Add Edge action */}
-        {edgeStart && mousePos && (
-          <line 
-            x1={getNodePos(edgeStart).x} 
-            y1={getNodePos(edgeStart).y} 
-            x2={mousePos.x} 
-            y2={mousePos.y} 
-            stroke={COLORS.primary} 
-            strokeWidth="2" 
-            strokeDasharray="5,5" 
-            className="pointer-events-none" 
-            style={{ filter: 'drop-shadow(0 0 2px rgba(255,255,255,0.8))' }}
-          />
-        )}
+                  {/* Visible line (with an arrowhead for directed arcs) */}
+                  <path 
+                      d={geometry.path}
+                      fill="none"
+                      stroke={style.stroke} 
+                      strokeWidth={style.strokeWidth}
+                      opacity={style.opacity}
+                      strokeDasharray={style.dash}
+                      markerEnd={directed ? `url(#${style.marker})` : undefined}
+                      className="pointer-events-none transition-all duration-300"
+                  />
+              </g>
+            );
+          })}
+
+          {/* 2. Drag Line (Temporary) - Visible during Add Edge action */}
+          {edgeStart && mousePos && (
+            <line 
+              x1={getNodePos(edgeStart).x} 
+              y1={getNodePos(edgeStart).y} 
+              x2={mousePos.x} 
+              y2={mousePos.y} 
+              stroke={COLORS.primary} 
+              strokeWidth="2" 
+              strokeDasharray="5,5" 
+              className="pointer-events-none" 
+              style={{ filter: 'drop-shadow(0 0 2px rgba(255,255,255,0.8))' }}
+            />
+          )}
 
-        {/* 3. Nodes - Rendered Middle Layer */}
-        {nodes.map(node => {
-            const isPermanent = currentStepState?.nodeStates[node.id]?.status === 'permanent';
-            const isActive = currentStepState?.activeNodeId === node.id;
-            const isSelected = selection?.type === 'node' && selection.id === node.id;
+          {/* 3. Nodes - Rendered Middle Layer */}
+          {drawnNodes.map(node => {
+              const isPermanent = currentStepState?.nodeStates[node.id]?.status === 'permanent';
+              const isActive = currentStepState?.activeNodeId === node.id;
+              const isSelected = isNodeSelected(selection, node.id);
+              const highlight = pathHighlights.find(h => h.nodeIds.includes(node.id));
             
+              return (
+                  <g 
+                      key={node.id} 
+                      id={`graph-node-${node.id}`}
+                      role="img"
+                      aria-label={describeNode(scene, node)}
+                      transform={`translate(${node.x}, ${node.y})`}
+                      onMouseDown={(e) => handleMouseDown(e, node.id)}
+                      onMouseUp={(e) => handleMouseUp(e, node.id)}
+                      onClick={(e) => e.stopPropagation()} // Stop propagation to prevent background clearing selection
+                      onMouseEnter={() => setHoverNode(node.id)}
+                      onMouseLeave={() => setHoverNode(null)}
+                      className="cursor-pointer transition-all duration-300"
+                      style={{ opacity: (currentStepState && !currentStepState.nodeStates[node.id]) ? 0.5 : 1}}
+                  >
+                      {/* Invisible larger hit area for easier connections */}
+                      <circle r="35" fill="white" opacity="0" />
+
+                      {/* Path highlight ring */}
+                      {highlight && (
+                           <circle r="26" fill="none" stroke={highlight.color} strokeWidth="3" opacity="0.8" />
+                      )}
+
+                      {/* Selection halo */}
+                      {isSelected && (
+                           <circle r="28" fill="none" stroke={COLORS.primary} strokeWidth="2" strokeDasharray="4,2" className="animate-spin-slow" />
+                      )}
+
+                      <circle 
+                          r={isActive ? 24 : 20} 
+                          fill={getNodeColor(scene, node.id)}
+                          stroke={getNodeStroke(scene, node.id)}
+                          strokeWidth={getNodeStrokeWidth(scene, node.id)}
+                          className="shadow-md pointer-events-none" // Events handled by group
+                      />
+                      <text 
+                          textAnchor="middle" 
+                          dy="5" 
+                          fill="white" 
+                          className="font-bold text-sm pointer-events-none select-none"
+                      >
+                          {node.label}
+                      </text>
+
+                      {/* Pin mark: automatic layout leaves this node where it is */}
+                      {node.pinned && (
+                          <circle cx="15" cy="-15" r="5" fill="#334155" stroke="white" strokeWidth="1.5">
+                              <title>位置已固定</title>
+                          </circle>
+                      )}
+                    
+                      {/* Double Label Display */}
+                      {showLabels && (
+                          <foreignObject x="25" y="-15" width="180" height="60" className="overflow-visible pointer-events-none">
+                               <div className={`text-xs px-2 py-1 rounded shadow-sm border border-slate-100 whitespace-nowrap 
+                                  ${isPermanent ? 'bg-blue-100 text-blue-800' : 'bg-white text-slate-700'}`}>
+                                  {getNodeLabelText(scene, node)}
+                               </div>
+                               {getBackwardLabelText(scene, node) && (
+                                  <div className="mt-0.5 text-xs px-2 py-0.5 rounded shadow-sm border border-violet-100 whitespace-nowrap bg-violet-50 text-violet-700 inline-block">
+                                      {getBackwardLabelText(scene, node)}
+                                  </div>
+                               )}
+                          </foreignObject>
+                      )}
+                  </g>
+              );
+          })}
+
+          {/* 4. Edge Weights (Labels) - Rendered Last (Top Layer) - double-click to edit in Select mode */}
+          {edges.map(edge => {
+            const s = getNodePos(edge.source);
+            const t = getNodePos(edge.target);
+            const { labelX, labelY } = getEdgeShape(edge, edges, s, t, false);
+
+            if (weightEdit?.edgeId === edge.id) {
+              return (
+                <foreignObject
+                  key={`label-${edge.id}`}
+                  x={labelX - 40}
+                  y={labelY - 14}
+                  width="80"
+                  height="70"
+                  className="overflow-visible"
+                  onClick={(e) => e.stopPropagation()}
+                  onMouseDown={(e) => e.stopPropagation()}
+                >
+                  <input
+                    autoFocus
+                    value={weightEdit.text}
+                    onChange={(e) => setWeightEdit({ ...weightEdit, text: e.target.value, error: null })}
+                    onFocus={(e) => e.target.select()}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitWeightEdit(false);
+                      if (e.key === 'Escape') setWeightEdit(null);
+                    }}
+                    onBlur={() => commitWeightEdit(true)}
+                    className={`w-full h-7 px-1 text-center text-sm font-bold rounded border-2 outline-none shadow ${
+                      weightEdit.error ? 'border-red-400 text-red-600' : 'border-blue-400 text-slate-700'
+                    }`}
+                  />
+                  {weightEdit.error && (
+                    <div className="mt-1 px-1.5 py-0.5 rounded bg-red-50 border border-red-100 text-[10px] leading-tight text-red-600">
+                      {weightEdit.error}
+                    </div>
+                  )}
+                </foreignObject>
+              );
+            }
+
             return (
                 <g 
-                    key={node.id} 
-                    transform={`translate(${node.x}, ${node.y})`}
-                    onMouseDown={(e) => handleMouseDown(e, node.id)}
-                    onMouseUp={(e) => handleMouseUp(e, node.id)}
-                    onClick={(e) => e.stopPropagation()} // Stop propagation to prevent background clearing selection
-                    onMouseEnter={() => setHoverNode(node.id)}
-                    onMouseLeave={() => setHoverNode(null)}
-                    className="cursor-pointer transition-all duration-300"
-                    style={{ opacity: (currentStepState && !currentStepState.nodeStates[node.id]) ? 0.5 : 1}}
+                  key={`label-${edge.id}`}
+                  transform={`translate(${labelX}, ${labelY})`}
+                  className={mode === EditorMode.SELECT ? 'cursor-text' : 'pointer-events-none'}
+                  onClick={(e) => {
+                      e.stopPropagation();
+                      onSelect(e.shiftKey ? toggleEdge(selection, edge.id) : selectEdge(edge.id));
+                  }}
+                  onDoubleClick={(e) => {
+                      e.stopPropagation();
+                      setWeightEdit({ edgeId: edge.id, text: String(edge.weight), error: null });
+                  }}
                 >
-                    {/* Invisible larger hit area for easier connections */}
-                    <circle r="35" fill="white" opacity="0" />
-
-                    {/* Selection halo */}
-                    {isSelected && (
-                         <circle r="28" fill="none" stroke={COLORS.primary} strokeWidth="2" strokeDasharray="4,2" className="animate-spin-slow" />
-                    )}
-
-                    <circle 
-                        r={isActive ? 24 : 20} 
-                        fill={getNodeColor(node.id)}
-                        stroke={getNodeStroke(node.id)}
-                        strokeWidth={getNodeStrokeWidth(node.id)}
-                        className="shadow-md pointer-events-none" // Events handled by group
-                    />
-                    <text 
-                        textAnchor="middle" 
-                        dy="5" 
-                        fill="white" 
-                        className="font-bold text-sm pointer-events-none select-none"
-                    >
-                        {node.label}
-                    </text>
-                    
-                    {/* Double Label Display */}
-                    {showLabels && (
-                        <foreignObject x="25" y="-15" width="100" height="40" className="overflow-visible pointer-events-none">
-                             <div className={`text-xs px-2 py-1 rounded shadow-sm border border-slate-100 whitespace-nowrap 
-                                ${isPermanent ? 'bg-blue-100 text-blue-800' : 'bg-white text-slate-700'}`}>
-                                {getNodeLabelText(node)}
-                             </div>
-                        </foreignObject>
-                    )}
+                  <title>双击修改权值</title>
+                  {/* Background */}
+                  <rect x="-15" y="-12" width="30" height="24" fill="white" rx="4" stroke="#e2e8f0" strokeWidth="1" className="shadow-sm" />
+                  <text 
+                      textAnchor="middle" 
+                      dy="4" 
+                      className="text-sm font-bold fill-slate-700 select-none"
+                  >
+                      {edge.weight}
+                  </text>
                 </g>
             );
-        })}
-
-        {/* 4. Edge Weights (Labels) - Rendered Last (Top Layer) - No interaction now */}
-        {edges.map(edge => {
-          const s = getNodePos(edge.source);
-          const t = getNodePos(edge.target);
-          const midX = (s.x + t.x) / 2;
-          const midY = (s.y + t.y) / 2;
-
-          return (
-              <g 
-                key={`label-${edge.id}`}
-                transform={`translate(${midX}, ${midY})`}
-                className="pointer-events-none"
-              >
-                {/* Background */}
-                <rect x="-15" y="-12" width="30" height="24" fill="white" rx="4" stroke="#e2e8f0" strokeWidth="1" className="shadow-sm" />
-                <text 
-                    textAnchor="middle" 
-                    dy="4" 
-                    className="text-sm font-bold fill-slate-700 select-none"
-                >
-                    {edge.weight}
-                </text>
-              </g>
-          );
-        })}
+          })}
 
+          {/* Selection box */}
+          {boxState && (
+            <rect
+              x={Math.min(boxState.x1, boxState.x2)}
+              y={Math.min(boxState.y1, boxState.y2)}
+              width={Math.abs(boxState.x2 - boxState.x1)}
+              height={Math.abs(boxState.y2 - boxState.y1)}
+              fill={COLORS.primary}
+              fillOpacity="0.08"
+              stroke={COLORS.primary}
+              strokeWidth={1 / view.k}
+              strokeDasharray={`${4 / view.k},${3 / view.k}`}
+              className="pointer-events-none"
+            />
+          )}
+        </g>
       </svg>
+
+      {/* Zoom controls and minimap */}
+      <div className="absolute bottom-4 right-4 flex items-end gap-2 z-10">
+        {nodes.length > 0 && size.width > 0 && (
+          <Minimap
+            nodes={nodes}
+            edges={edges}
+            view={view}
+            canvasWidth={size.width}
+            canvasHeight={size.height}
+            onCenter={(x, y) => setView(v => centerOn(v, x, y, size.width, size.height))}
+          />
+        )}
+        <div className="bg-white/95 backdrop-blur rounded-xl shadow-lg border border-slate-200 p-1 flex flex-col items-center gap-0.5">
+          <button onClick={() => zoomBy(1.25)} className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-100" title="放大">
+            <ZoomIn size={16} />
+          </button>
+          <button onClick={() => setView(v => zoomAt(v, size.width / 2, size.height / 2, 1 / v.k))} className="px-1 py-0.5 rounded-md text-[10px] font-bold text-slate-500 hover:bg-slate-100 font-mono" title="恢复 100%">
+            {Math.round(view.k * 100)}%
+          </button>
+          <button onClick={() => zoomBy(0.8)} className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-100" title="缩小">
+            <ZoomOut size={16} />
+          </button>
+          <button onClick={fitView} className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-100" title="适应画布（显示全部节点）">
+            <Maximize size={16} />
+          </button>
+        </div>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,190 @@
+import React, { useRef, useState } from 'react';
+import { GraphDocument, LibraryEntry } from '../types';
+import { EXAMPLE_GRAPHS } from '../constants';
+import ImportExportPanel from './ImportExportPanel';
+import { createGraphFile, parseGraphFile, serializeGraphFile } from '../services/graphStorage';
+import { downloadFile, toFileName } from '../services/download';
+import { Library, X, Save, Download, Upload, Trash2, RefreshCw, BookOpen } from 'lucide-react';
+
+interface GraphLibraryProps {
+  current: GraphDocument;
+  entries: LibraryEntry[];
+  onEntriesChange: (entries: LibraryEntry[]) => void;
+  onLoad: (name: string, graph: GraphDocument) => void;
+  onClose: () => void;
+}
+
+const summary = (graph: GraphDocument) =>
+  `${graph.nodes.length} 节点 · ${graph.edges.length} 边 · ${graph.directed ? '有向' : '无向'}`;
+
+const GraphLibrary: React.FC<GraphLibraryProps> = ({ current, entries, onEntriesChange, onLoad, onClose }) => {
+  const [name, setName] = useState(`我的图 ${entries.length + 1}`);
+  const [description, setDescription] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const saveCurrent = () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setError('请填写图的名称');
+      return;
+    }
+    const existing = entries.find(e => e.name === trimmed);
+    if (existing && !confirm(`图库中已有「${trimmed}」，是否覆盖？`)) return;
+    const file = createGraphFile(current, trimmed, description.trim() || undefined, existing?.createdAt);
+    onEntriesChange(existing
+      ? entries.map(e => (e.id === existing.id ? { ...file, id: existing.id } : e))
+      : [{ ...file, id: `g-${Date.now()}` }, ...entries]);
+    setError(null);
+  };
+
+  const handleFile = async (file: File) => {
+    const result = parseGraphFile(await file.text());
+    if ('error' in result) {
+      setError(`无法打开 ${file.name}：${result.error}`);
+      return;
+    }
+    setError(null);
+    onLoad(result.file.name, result.file.graph);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/30 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[85vh] bg-white rounded-2xl shadow-2xl border border-slate-200 flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-5 py-3 border-b border-slate-100 flex items-center justify-between">
+          <h2 className="flex items-center gap-2 text-sm font-bold text-slate-700">
+            <Library size={16} className="text-blue-600" /> 图库
+          </h2>
+          <button onClick={onClose} className="p-1.5 rounded-lg text-slate-400 hover:bg-slate-100" title="关闭">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-5 space-y-5 text-xs text-slate-600">
+          {/* Save / open the working graph */}
+          <section className="space-y-2">
+            <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">当前图 · {summary(current)}</div>
+            <div className="flex gap-2">
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="名称"
+                className="flex-1 px-2 py-1.5 rounded-md border border-slate-200 outline-none focus:ring-2 focus:ring-blue-100"
+              />
+              <input
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="说明（可选）"
+                className="flex-[2] px-2 py-1.5 rounded-md border border-slate-200 outline-none focus:ring-2 focus:ring-blue-100"
+              />
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button onClick={saveCurrent} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg font-bold bg-blue-600 text-white hover:bg-blue-700">
+                <Save size={14} /> 保存到图库
+              </button>
+              <button
+                onClick={() => downloadFile(toFileName(name, 'json'), serializeGraphFile(createGraphFile(current, name.trim() || '未命名图', description.trim() || undefined)), 'application/json')}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg font-bold bg-slate-100 text-slate-600 hover:bg-slate-200"
+              >
+                <Download size={14} /> 下载为文件
+              </button>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg font-bold bg-slate-100 text-slate-600 hover:bg-slate-200"
+              >
+                <Upload size={14} /> 从文件打开
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleFile(file);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+            {error && <div className="px-2 py-1.5 rounded-md bg-red-50 border border-red-100 text-red-600">{error}</div>}
+          </section>
+
+          <ImportExportPanel current={current} onLoad={onLoad} />
+
+          {/* Saved graphs */}
+          <section className="space-y-2">
+            <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">我的图（保存在本浏览器）</div>
+            {entries.length === 0 ? (
+              <div className="text-slate-300 italic">还没有保存的图</div>
+            ) : (
+              <div className="divide-y divide-slate-100 border border-slate-100 rounded-lg">
+                {entries.map(entry => (
+                  <div key={entry.id} className="px-3 py-2 flex items-center gap-3 hover:bg-slate-50">
+                    <button onClick={() => onLoad(entry.name, entry.graph)} className="flex-1 min-w-0 text-left" title="载入此图">
+                      <div className="font-bold text-slate-700 truncate">{entry.name}</div>
+                      <div className="text-[10px] text-slate-400 truncate">
+                        {summary(entry.graph)} · {new Date(entry.updatedAt).toLocaleString()}
+                        {entry.description ? ` · ${entry.description}` : ''}
+                      </div>
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (!confirm(`用当前图覆盖「${entry.name}」？`)) return;
+                        onEntriesChange(entries.map(e => (e.id === entry.id
+                          ? { ...createGraphFile(current, entry.name, entry.description, entry.createdAt), id: entry.id }
+                          : e)));
+                      }}
+                      className="p-1.5 rounded-md text-slate-400 hover:bg-slate-100 hover:text-slate-600"
+                      title="用当前图更新"
+                    >
+                      <RefreshCw size={14} />
+                    </button>
+                    <button
+                      onClick={() => downloadFile(toFileName(entry.name, 'json'), serializeGraphFile(entry), 'application/json')}
+                      className="p-1.5 rounded-md text-slate-400 hover:bg-slate-100 hover:text-slate-600"
+                      title="下载"
+                    >
+                      <Download size={14} />
+                    </button>
+                    <button
+                      onClick={() => { if (confirm(`删除「${entry.name}」？`)) onEntriesChange(entries.filter(e => e.id !== entry.id)); }}
+                      className="p-1.5 rounded-md text-slate-400 hover:bg-red-50 hover:text-red-500"
+                      title="删除"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+
+          {/* Built-in examples */}
+          <section className="space-y-2">
+            <div className="flex items-center gap-1.5 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+              <BookOpen size={12} /> 内置例题
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {EXAMPLE_GRAPHS.map(example => (
+                <button
+                  key={example.name}
+                  onClick={() => onLoad(example.name, example.graph)}
+                  className="text-left px-3 py-2 rounded-lg border border-slate-100 hover:border-blue-200 hover:bg-blue-50/50 transition-colors"
+                >
+                  <div className="font-bold text-slate-700">{example.name}</div>
+                  <div className="text-[10px] text-slate-400 mt-0.5">{summary(example.graph)}</div>
+                  <div className="text-[11px] text-slate-500 mt-1 leading-snug">{example.description}</div>
+                </button>
+              ))}
+            </div>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GraphLibrary;
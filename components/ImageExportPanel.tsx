@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { CanvasScene, StepTrace } from '../types';
+import { SvgFrame, renderSvg, renderAnimatedSvg, svgToPng } from '../services/svgExport';
+import { getStep } from '../services/trace';
+import { createZip } from '../services/zip';
+import { downloadFile } from '../services/download';
+import { Image, X, Loader2 } from 'lucide-react';
+
+interface ImageExportPanelProps {
+  scene: CanvasScene; // What the canvas shows right now
+  steps: StepTrace;
+  currentStepIndex: number;
+  running: boolean;
+  secondsPerFrame: number;
+  onClose: () => void;
+}
+
+const ImageExportPanel: React.FC<ImageExportPanelProps> = ({ scene, steps, currentStepIndex, running, secondsPerFrame, onClose }) => {
+  const [withCaption, setWithCaption] = useState(true);
+  const [withLabels, setWithLabels] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const captionOf = (index: number) =>
+    withCaption && index >= 0 ? `步骤 ${index + 1} / ${steps.length}：${getStep(steps, index)?.description ?? ''}` : undefined;
+
+  // Selection marks are editing aids and stay out of exported pictures
+  const currentFrame = (): SvgFrame => ({ scene: { ...scene, selection: null }, caption: captionOf(currentStepIndex) });
+
+  const stepFrames = (): SvgFrame[] => Array.from({ length: steps.length }, (_, i) => ({
+    scene: { ...scene, selection: null, stepState: getStep(steps, i), pathHighlights: [] },
+    caption: captionOf(i),
+  }));
+
+  const run = async (label: string, task: () => Promise<void>) => {
+    setBusy(label);
+    try {
+      await task();
+    } catch (error) {
+      alert(`导出失败：${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const exportFrames = (format: 'svg' | 'png') => run('正在生成帧…', async () => {
+    const encoder = new TextEncoder();
+    const frames = stepFrames();
+    const width = String(frames.length).length;
+    const files = [];
+    for (let i = 0; i < frames.length; i++) {
+      setBusy(`正在生成第 ${i + 1} / ${frames.length} 帧…`);
+      const svg = renderSvg(frames[i], withLabels);
+      const data = format === 'svg' ? encoder.encode(svg) : new Uint8Array(await (await svgToPng(svg)).arrayBuffer());
+      files.push({ name: `step-${String(i + 1).padStart(width, '0')}.${format}`, data });
+    }
+    downloadFile(`steps-${format}.zip`, createZip(files));
+  });
+
+  const hasSteps = steps.length > 0 && !running;
+  const buttonClass = 'flex-1 px-2 py-1.5 rounded-md font-bold bg-slate-50 text-slate-600 hover:bg-blue-50 hover:text-blue-600 disabled:opacity-40 disabled:hover:bg-slate-50 disabled:hover:text-slate-600';
+
+  return (
+    <div className="absolute top-4 right-20 w-64 bg-white/95 backdrop-blur rounded-xl shadow-lg border border-slate-200 p-3 z-20 text-xs text-slate-600 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-2 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+          <Image size={12} /> 导出图片
+        </span>
+        <button onClick={onClose} className="p-1 rounded-md text-slate-400 hover:bg-slate-100" title="关闭">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="space-y-1">
+        <label className="flex items-center gap-1.5">
+          <input type="checkbox" checked={withLabels} onChange={(e) => setWithLabels(e.target.checked)} className="accent-blue-600" />
+          显示节点标号
+        </label>
+        <label className="flex items-center gap-1.5">
+          <input type="checkbox" checked={withCaption} onChange={(e) => setWithCaption(e.target.checked)} className="accent-blue-600" />
+          附带步骤说明
+        </label>
+      </div>
+
+      <div>
+        <div className="text-[10px] font-bold text-slate-400 mb-1">当前画面</div>
+        <div className="flex gap-1">
+          <button
+            disabled={busy !== null}
+            onClick={() => downloadFile('graph.svg', renderSvg(currentFrame(), withLabels), 'image/svg+xml')}
+            className={buttonClass}
+          >
+            SVG
+          </button>
+          <button
+            disabled={busy !== null}
+            onClick={() => run('正在生成 PNG…', async () => downloadFile('graph.png', await svgToPng(renderSvg(currentFrame(), withLabels))))}
+            className={buttonClass}
+          >
+            PNG
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <div className="text-[10px] font-bold text-slate-400 mb-1">全部步骤{steps.length > 0 ? `（${steps.length} 帧）` : ''}</div>
+        <div className="flex gap-1">
+          <button disabled={!hasSteps || busy !== null} onClick={() => exportFrames('png')} className={buttonClass} title="每步一张 PNG，打包为 ZIP">
+            PNG 帧
+          </button>
+          <button disabled={!hasSteps || busy !== null} onClick={() => exportFrames('svg')} className={buttonClass} title="每步一张 SVG，打包为 ZIP">
+            SVG 帧
+          </button>
+          <button
+            disabled={!hasSteps || busy !== null}
+            onClick={() => downloadFile('steps-animated.svg', renderAnimatedSvg(stepFrames(), withLabels, secondsPerFrame), 'image/svg+xml')}
+            className={buttonClass}
+            title={`循环播放的 SVG 动画，每步 ${secondsPerFrame} 秒`}
+          >
+            动画 SVG
+          </button>
+        </div>
+        {!hasSteps && (
+          <div className="mt-1 text-[10px] text-slate-400">{running ? '计算完成后可导出全部步骤。' : '运行算法后可导出全部步骤。'}</div>
+        )}
+      </div>
+
+      {busy && (
+        <div className="flex items-center gap-1.5 text-[11px] text-blue-600">
+          <Loader2 size={12} className="animate-spin" /> {busy}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImageExportPanel;
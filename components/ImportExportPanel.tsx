@@ -0,0 +1,122 @@
+import React, { useRef, useState } from 'react';
+import { GraphDocument, GraphFormat } from '../types';
+import { GRAPH_FORMATS, detectFormat, exportGraph, importGraph } from '../services/graphFormats';
+import { downloadFile, toFileName } from '../services/download';
+import { FileDown, FileUp, ClipboardPaste } from 'lucide-react';
+
+interface ImportExportPanelProps {
+  current: GraphDocument;
+  onLoad: (name: string, graph: GraphDocument) => void;
+}
+
+const ImportExportPanel: React.FC<ImportExportPanelProps> = ({ current, onLoad }) => {
+  const [exportFormat, setExportFormat] = useState<GraphFormat>('matrix-csv');
+  const [importFormat, setImportFormat] = useState<GraphFormat | 'auto'>('auto');
+  const [directed, setDirected] = useState(false);
+  const [pasted, setPasted] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const runImport = (text: string, name: string, fileName: string) => {
+    const format = importFormat === 'auto' ? detectFormat(fileName, text) : importFormat;
+    if (!format) {
+      setErrors([`无法从文件名 ${fileName} 判断格式，请手动选择`]);
+      return;
+    }
+    const result = importGraph(text, format, directed);
+    if ('errors' in result) {
+      const label = GRAPH_FORMATS.find(f => f.id === format)?.label ?? format;
+      setErrors([`按 ${label} 解析失败：`, ...result.errors]);
+      return;
+    }
+    if (result.warnings.length > 0 && !confirm(`导入时有以下提示：\n${result.warnings.join('\n')}\n\n继续载入？`)) return;
+    setErrors([]);
+    onLoad(name, result.graph);
+  };
+
+  const importable = GRAPH_FORMATS.filter(f => f.canImport);
+  const selectedHint = GRAPH_FORMATS.find(f => f.id === importFormat)?.hint;
+
+  return (
+    <section className="space-y-3">
+      <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">其他格式导入 / 导出</div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={exportFormat}
+          onChange={(e) => setExportFormat(e.target.value as GraphFormat)}
+          className="px-2 py-1.5 rounded-md border border-slate-200 bg-white"
+        >
+          {GRAPH_FORMATS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+        </select>
+        <button
+          onClick={() => {
+            const info = GRAPH_FORMATS.find(f => f.id === exportFormat)!;
+            downloadFile(toFileName('graph', info.extension), exportGraph(current, exportFormat), info.mimeType);
+          }}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg font-bold bg-slate-100 text-slate-600 hover:bg-slate-200"
+        >
+          <FileDown size={14} /> 导出当前图
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={importFormat}
+          onChange={(e) => setImportFormat(e.target.value as GraphFormat | 'auto')}
+          className="px-2 py-1.5 rounded-md border border-slate-200 bg-white"
+        >
+          <option value="auto">自动识别格式</option>
+          {importable.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+        </select>
+        <label className="flex items-center gap-1.5" title="边列表 CSV 本身不含方向信息">
+          <input type="checkbox" checked={directed} onChange={(e) => setDirected(e.target.checked)} className="accent-blue-600" />
+          边列表按有向图导入
+        </label>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg font-bold bg-slate-100 text-slate-600 hover:bg-slate-200"
+        >
+          <FileUp size={14} /> 导入文件
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.tsv,.txt,.gr,.graphml,.xml"
+          className="hidden"
+          onChange={async (e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) runImport(await file.text(), file.name.replace(/\.[^.]+$/, ''), file.name);
+          }}
+        />
+      </div>
+      {selectedHint && <div className="text-[10px] text-slate-400">{selectedHint}</div>}
+
+      <div className="space-y-1.5">
+        <textarea
+          value={pasted}
+          onChange={(e) => setPasted(e.target.value)}
+          placeholder="也可以直接粘贴表格数据（如从电子表格复制的权矩阵或边列表）"
+          rows={4}
+          className="w-full px-2 py-1.5 rounded-md border border-slate-200 font-mono text-[11px] outline-none focus:ring-2 focus:ring-blue-100"
+        />
+        <button
+          onClick={() => runImport(pasted, '粘贴的图', 'pasted.csv')}
+          disabled={pasted.trim() === ''}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg font-bold bg-slate-100 text-slate-600 hover:bg-slate-200 disabled:opacity-40"
+        >
+          <ClipboardPaste size={14} /> 导入粘贴内容
+        </button>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="px-3 py-2 rounded-md bg-red-50 border border-red-100 text-red-600 space-y-0.5 list-none">
+          {errors.map((message, i) => <li key={i} className={i === 0 ? 'font-bold' : ''}>{message}</li>)}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default ImportExportPanel;
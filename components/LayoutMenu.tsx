@@ -0,0 +1,51 @@
+import React from 'react';
+import { Node, LayoutKind } from '../types';
+import { LAYOUTS } from '../services/layout';
+import { Network, X, PinOff } from 'lucide-react';
+
+interface LayoutMenuProps {
+  nodes: Node[];
+  onApply: (kind: LayoutKind) => void;
+  onUnpinAll: () => void;
+  onClose: () => void;
+}
+
+const LayoutMenu: React.FC<LayoutMenuProps> = ({ nodes, onApply, onUnpinAll, onClose }) => {
+  const pinnedCount = nodes.filter(n => n.pinned).length;
+
+  return (
+    <div className="absolute top-4 right-20 w-64 bg-white/95 backdrop-blur rounded-xl shadow-lg border border-slate-200 p-3 z-20 text-xs text-slate-600 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-2 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+          <Network size={12} /> 自动布局
+        </span>
+        <button onClick={onClose} className="p-1 rounded-md text-slate-400 hover:bg-slate-100" title="关闭">
+          <X size={14} />
+        </button>
+      </div>
+
+      {LAYOUTS.map(layout => (
+        <button
+          key={layout.id}
+          onClick={() => onApply(layout.id)}
+          disabled={nodes.length === 0}
+          className="w-full text-left px-2.5 py-2 rounded-lg border border-slate-100 hover:border-blue-200 hover:bg-blue-50/50 transition-colors disabled:opacity-40"
+        >
+          <div className="font-bold text-slate-700">{layout.label}</div>
+          <div className="text-[10px] text-slate-400 mt-0.5 leading-snug">{layout.description}</div>
+        </button>
+      ))}
+
+      <div className="flex items-center justify-between gap-2 text-[10px] text-slate-400">
+        <span>{pinnedCount > 0 ? `${pinnedCount} 个节点已固定，布局时保持不动。` : '在属性面板中可固定节点位置。'}</span>
+        {pinnedCount > 0 && (
+          <button onClick={onUnpinAll} className="flex items-center gap-1 px-1.5 py-0.5 rounded-md font-bold text-slate-500 hover:bg-slate-100 whitespace-nowrap">
+            <PinOff size={12} /> 全部取消
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LayoutMenu;
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { AlgorithmStep, Node } from '../types';
+
+interface MatrixTableProps {
+  currentStep: AlgorithmStep | null;
+  nodes: Node[];
+  selectedPair: { from: string, to: string } | null;
+  onSelectPair: (pair: { from: string, to: string } | null) => void;
+}
+
+const MatrixTable: React.FC<MatrixTableProps> = ({ currentStep, nodes, selectedPair, onSelectPair }) => {
+  const [view, setView] = useState<'dist' | 'next'>('dist');
+  const matrix = currentStep?.matrix;
+
+  if (!matrix) return (
+    <div className="h-full flex items-center justify-center text-slate-400 italic text-sm">
+        点击“开始计算”查看矩阵
+    </div>
+  );
+
+  const labelOf = (id: string | null) => (id ? nodes.find(n => n.id === id)?.label ?? id : '-');
+  const isChanged = (i: number, j: number) => matrix.changed.some(([ci, cj]) => ci === i && cj === j);
+  const k = matrix.pivot ? matrix.nodeIds.indexOf(matrix.pivot) : -1;
+
+  return (
+    <div className="w-full overflow-auto">
+      <div className="flex items-center gap-1 px-3 py-2 border-b border-slate-100 bg-white sticky left-0">
+        {([['dist', 'D 距离矩阵'], ['next', 'R 路径矩阵']] as const).map(([v, label]) => (
+          <button
+            key={v}
+            onClick={() => setView(v)}
+            className={`px-2 py-1 rounded-md text-[10px] font-bold transition-colors ${
+              view === v ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+        <span className="ml-auto text-[10px] text-slate-400">点击元素查看路径</span>
+      </div>
+      <table className="text-xs text-center border-collapse font-mono">
+        <thead className="text-slate-500 bg-slate-50 sticky top-0">
+          <tr>
+            <th className="px-2 py-1.5 border-b border-r"></th>
+            {matrix.nodeIds.map((id, j) => (
+              <th key={id} className={`px-2 py-1.5 border-b ${j === k ? 'bg-amber-50 text-amber-700' : ''}`}>{labelOf(id)}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="bg-white">
+          {matrix.nodeIds.map((rowId, i) => (
+            <tr key={rowId}>
+              <th className={`px-2 py-1.5 border-r text-slate-500 ${i === k ? 'bg-amber-50 text-amber-700' : 'bg-slate-50'}`}>{labelOf(rowId)}</th>
+              {matrix.nodeIds.map((colId, j) => {
+                const isSelected = selectedPair?.from === rowId && selectedPair?.to === colId;
+                const value = view === 'dist'
+                  ? (matrix.dist[i][j] === Infinity ? '∞' : matrix.dist[i][j])
+                  : labelOf(matrix.next[i][j]);
+                return (
+                  <td
+                    key={colId}
+                    onClick={() => onSelectPair(isSelected ? null : { from: rowId, to: colId })}
+                    className={`px-2 py-1.5 border border-slate-100 cursor-pointer transition-colors ${
+                      isSelected
+                        ? 'bg-blue-600 text-white font-bold'
+                        : isChanged(i, j)
+                          ? 'bg-amber-200 text-amber-900 font-bold'
+                          : (i === k || j === k) ? 'bg-amber-50/60 hover:bg-slate-100' : 'hover:bg-slate-100'
+                    }`}
+                  >
+                    {value}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default MatrixTable;
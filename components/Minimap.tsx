@@ -0,0 +1,83 @@
+import React, { useRef } from 'react';
+import { Node, Edge, Viewport } from '../types';
+import { COLORS } from '../constants';
+import { getContentBounds, getVisibleRect } from '../services/viewport';
+
+interface MinimapProps {
+  nodes: Node[];
+  edges: Edge[];
+  view: Viewport;
+  canvasWidth: number;
+  canvasHeight: number;
+  onCenter: (x: number, y: number) => void; // Graph coordinates to bring to the canvas centre
+}
+
+const WIDTH = 160;
+const HEIGHT = 110;
+
+const Minimap: React.FC<MinimapProps> = ({ nodes, edges, view, canvasWidth, canvasHeight, onCenter }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragging = useRef(false);
+
+  // The map covers the nodes and the visible area, whichever reaches further
+  const visible = getVisibleRect(view, canvasWidth, canvasHeight);
+  const content = getContentBounds(nodes) ?? visible;
+  const minX = Math.min(content.x, visible.x);
+  const minY = Math.min(content.y, visible.y);
+  const maxX = Math.max(content.x + content.width, visible.x + visible.width);
+  const maxY = Math.max(content.y + content.height, visible.y + visible.height);
+  const scale = Math.min(WIDTH / (maxX - minX || 1), HEIGHT / (maxY - minY || 1));
+  const offsetX = (WIDTH - (maxX - minX) * scale) / 2;
+  const offsetY = (HEIGHT - (maxY - minY) * scale) / 2;
+  const toMap = (x: number, y: number) => ({ x: offsetX + (x - minX) * scale, y: offsetY + (y - minY) * scale });
+  const posOf = (id: string) => {
+    const node = nodes.find(n => n.id === id);
+    return node ? toMap(node.x, node.y) : null;
+  };
+
+  const centerAt = (e: React.MouseEvent) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    onCenter(minX + (e.clientX - rect.left - offsetX) / scale, minY + (e.clientY - rect.top - offsetY) / scale);
+  };
+
+  const viewport = toMap(visible.x, visible.y);
+
+  return (
+    <svg
+      ref={svgRef}
+      width={WIDTH}
+      height={HEIGHT}
+      className="bg-white/95 rounded-lg shadow-lg border border-slate-200 cursor-pointer"
+      onMouseDown={(e) => { e.stopPropagation(); dragging.current = true; centerAt(e); }}
+      onMouseMove={(e) => { if (dragging.current) centerAt(e); }}
+      onMouseUp={() => { dragging.current = false; }}
+      onMouseLeave={() => { dragging.current = false; }}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <title>小地图：点击或拖动以移动视图</title>
+      {edges.map(edge => {
+        const s = posOf(edge.source);
+        const t = posOf(edge.target);
+        return s && t ? <line key={edge.id} x1={s.x} y1={s.y} x2={t.x} y2={t.y} stroke="#cbd5e1" strokeWidth="1" /> : null;
+      })}
+      {nodes.map(node => {
+        const p = toMap(node.x, node.y);
+        return <circle key={node.id} cx={p.x} cy={p.y} r="2.5" fill={COLORS.primary} />;
+      })}
+      <rect
+        x={viewport.x}
+        y={viewport.y}
+        width={visible.width * scale}
+        height={visible.height * scale}
+        fill={COLORS.primary}
+        fillOpacity="0.08"
+        stroke={COLORS.primary}
+        strokeWidth="1.5"
+        rx="2"
+      />
+    </svg>
+  );
+};
+
+export default Minimap;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { Node, ResultPath } from '../types';
+import { PATH_COLORS } from '../constants';
+import { Route } from 'lucide-react';
+
+interface PathListPanelProps {
+  title: string;
+  paths: ResultPath[];
+  nodes: Node[];
+  selected: number[];
+  onToggle: (index: number) => void;
+}
+
+const PathListPanel: React.FC<PathListPanelProps> = ({ title, paths, nodes, selected, onToggle }) => {
+  const labelOf = (id: string) => nodes.find(n => n.id === id)?.label ?? id;
+
+  return (
+    <div className="border-b border-slate-100 bg-white flex-shrink-0">
+      <div className="px-4 py-2 flex items-center gap-2 text-xs font-bold text-slate-700">
+        <Route size={14} className="text-blue-600" />
+        {title}
+        <span className="text-[10px] font-medium text-slate-300">({paths.length})</span>
+        <span className="ml-auto text-[10px] font-medium text-slate-400">点击在图上高亮</span>
+      </div>
+      <div className="max-h-[120px] overflow-y-auto border-t border-slate-50 custom-scrollbar">
+        {paths.map((path, idx) => {
+          const color = PATH_COLORS[idx % PATH_COLORS.length];
+          const isSelected = selected.includes(idx);
+          return (
+            <button
+              key={idx}
+              onClick={() => onToggle(idx)}
+              className={`w-full text-left px-4 py-2 text-[11px] border-b border-slate-50 last:border-0 flex items-center gap-3 transition-colors ${
+                isSelected ? 'bg-slate-50 text-slate-900 font-bold' : 'text-slate-500 hover:bg-slate-50'
+              }`}
+            >
+              <span
+                className="w-2.5 h-2.5 rounded-full flex-shrink-0"
+                style={{ backgroundColor: isSelected ? color : 'transparent', border: `2px solid ${color}` }}
+              ></span>
+              <span className="font-mono opacity-40 w-4 text-right">{idx + 1}</span>
+              <span className="flex-1 truncate">{path.nodeIds.map(labelOf).join(' → ')}</span>
+              <span className="font-mono font-bold text-slate-700">{path.cost}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PathListPanel;
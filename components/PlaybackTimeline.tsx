@@ -0,0 +1,167 @@
+import React, { useMemo, useState } from 'react';
+import { Node, Breakpoint, StepTrace } from '../types';
+import {
+  PLAYBACK_SPEEDS, BREAKPOINT_KINDS, ANY_PERMANENT, matchesBreakpoint, findMatchingSteps,
+  describeBreakpoint, isSameBreakpoint,
+} from '../services/playback';
+import { StepForward, StepBack, SkipBack, SkipForward, ChevronsRight, Gauge, CircleDot, Plus, X } from 'lucide-react';
+
+interface PlaybackTimelineProps {
+  steps: StepTrace;
+  currentIndex: number;
+  onSeek: (index: number) => void;
+  speed: number;
+  onSpeedChange: (ms: number) => void;
+  breakpoints: Breakpoint[];
+  onBreakpointsChange: (breakpoints: Breakpoint[]) => void;
+  pausedAt: Breakpoint | null; // Breakpoint that stopped the playback at the current step
+  nodes: Node[];
+}
+
+// Beyond this many markers the scrubber shows none rather than a solid bar
+const MAX_MARKERS = 300;
+
+/**
+ * Step navigation under the play button: scrubber with markers for the steps that make a
+ * label permanent (grey) and the steps that hit a breakpoint (red), jumps, speed and the
+ * breakpoint list.
+ */
+const PlaybackTimeline: React.FC<PlaybackTimelineProps> = ({
+  steps, currentIndex, onSeek, speed, onSpeedChange, breakpoints, onBreakpointsChange, pausedAt, nodes,
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftKind, setDraftKind] = useState<Breakpoint['kind']>('permanent');
+  const [draftNode, setDraftNode] = useState(''); // '' stands for any node
+  const last = steps.length - 1;
+
+  const permanentSteps = useMemo(() => findMatchingSteps(steps, f => matchesBreakpoint(f, ANY_PERMANENT)), [steps]);
+  const breakpointSteps = useMemo(() => (breakpoints.length === 0 ? [] :
+    findMatchingSteps(steps, f => breakpoints.some(bp => matchesBreakpoint(f, bp)))), [steps, breakpoints]);
+  const nextPermanent = permanentSteps.find(i => i > currentIndex) ?? -1;
+  const nextBreakpoint = breakpointSteps.find(i => i > currentIndex) ?? -1;
+
+  const markerLeft = (i: number) => `${(i / Math.max(1, last)) * 100}%`;
+
+  const addBreakpoint = () => {
+    const breakpoint: Breakpoint = { id: `bp-${Date.now()}`, kind: draftKind, nodeId: draftNode || null };
+    if (breakpoints.some(bp => isSameBreakpoint(bp, breakpoint))) return;
+    onBreakpointsChange([...breakpoints, breakpoint]);
+  };
+
+  const navButton = 'p-1.5 hover:bg-slate-100 rounded-lg text-slate-600 disabled:opacity-20';
+
+  return (
+    <div className="space-y-2 mb-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center">
+          <button onClick={() => onSeek(0)} disabled={currentIndex <= 0} className={navButton} title="第一步 (Home)" aria-label="第一步">
+            <SkipBack size={16}/>
+          </button>
+          <button onClick={() => onSeek(currentIndex - 1)} disabled={currentIndex <= 0} className={navButton} title="上一步 (,)" aria-label="上一步">
+            <StepBack size={18}/>
+          </button>
+        </div>
+        <span className="text-xs font-bold text-slate-500 bg-slate-100 px-2 py-1 rounded-md">Step {currentIndex + 1} / {steps.length}</span>
+        <div className="flex items-center">
+          <button onClick={() => onSeek(currentIndex + 1)} disabled={currentIndex >= last} className={navButton} title="下一步 (.)" aria-label="下一步">
+            <StepForward size={18}/>
+          </button>
+          <button onClick={() => onSeek(nextPermanent)} disabled={nextPermanent < 0} className={navButton} title="下一个永久标号 (J)" aria-label="下一个永久标号">
+            <ChevronsRight size={18}/>
+          </button>
+          <button onClick={() => onSeek(last)} disabled={currentIndex >= last} className={navButton} title="最后一步 (End)" aria-label="最后一步">
+            <SkipForward size={16}/>
+          </button>
+        </div>
+      </div>
+
+      <div className="relative pt-1 pb-2">
+        <input
+          type="range"
+          min={0}
+          max={Math.max(0, last)}
+          value={Math.max(0, currentIndex)}
+          onChange={e => onSeek(Number(e.target.value))}
+          className="w-full accent-blue-600"
+          aria-label="步骤时间轴"
+          aria-valuetext={`第 ${currentIndex + 1} 步，共 ${steps.length} 步`}
+        />
+        <div className="absolute left-0 right-0 bottom-0 h-1.5 pointer-events-none" aria-hidden="true">
+          {permanentSteps.length <= MAX_MARKERS && permanentSteps.map(i => (
+            <span key={`p${i}`} className="absolute top-0 w-px h-1.5 bg-slate-300" style={{ left: markerLeft(i) }} />
+          ))}
+          {breakpointSteps.length <= MAX_MARKERS && breakpointSteps.map(i => (
+            <span key={`b${i}`} className="absolute top-0 w-1.5 h-1.5 -ml-[3px] rounded-full bg-red-500" style={{ left: markerLeft(i) }} />
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-2 text-[11px] text-slate-500">
+        <label className="flex items-center gap-1.5" title="播放速度 (+ / -)">
+          <Gauge size={12}/>
+          <select
+            value={speed}
+            onChange={e => onSpeedChange(Number(e.target.value))}
+            className="bg-white border border-slate-200 rounded-md px-1 py-0.5 text-[11px] text-slate-600"
+            aria-label="播放速度"
+          >
+            {PLAYBACK_SPEEDS.map(s => <option key={s.ms} value={s.ms}>{s.label}</option>)}
+          </select>
+        </label>
+        <div className="flex items-center gap-1">
+          {nextBreakpoint >= 0 && (
+            <button onClick={() => onSeek(nextBreakpoint)} className="px-1.5 py-0.5 rounded-md text-red-500 hover:bg-red-50 font-bold" title="跳到下一个断点">
+              下一断点
+            </button>
+          )}
+          <button
+            onClick={() => setIsEditing(!isEditing)}
+            className={`flex items-center gap-1 px-1.5 py-0.5 rounded-md font-bold ${isEditing ? 'bg-red-50 text-red-600' : 'hover:bg-slate-100'}`}
+            aria-expanded={isEditing}
+            title="断点：播放到这些步骤时自动暂停 (B 为选中节点添加或移除)"
+          >
+            <CircleDot size={12}/> 断点{breakpoints.length > 0 ? ` ${breakpoints.length}` : ''}
+          </button>
+        </div>
+      </div>
+
+      {pausedAt && (
+        <div className="text-[11px] text-red-600 bg-red-50 rounded-md px-2 py-1">
+          已在断点暂停：{describeBreakpoint(pausedAt, nodes)}
+        </div>
+      )}
+
+      {isEditing && (
+        <div className="space-y-1.5 border-t border-slate-100 pt-2 text-[11px] text-slate-600">
+          {breakpoints.length === 0 && <div className="text-slate-300 italic">尚无断点</div>}
+          {breakpoints.map(bp => (
+            <div key={bp.id} className="flex items-center justify-between gap-2">
+              <span className="flex items-center gap-1.5"><span className="w-1.5 h-1.5 rounded-full bg-red-500"/>{describeBreakpoint(bp, nodes)}</span>
+              <button
+                onClick={() => onBreakpointsChange(breakpoints.filter(b => b.id !== bp.id))}
+                className="p-0.5 rounded-md text-slate-400 hover:bg-slate-100"
+                title="移除断点"
+              >
+                <X size={12}/>
+              </button>
+            </div>
+          ))}
+          <div className="flex items-center gap-1">
+            <select value={draftNode} onChange={e => setDraftNode(e.target.value)} className="flex-1 min-w-0 bg-white border border-slate-200 rounded-md px-1 py-0.5" aria-label="断点节点">
+              <option value="">任一节点</option>
+              {nodes.map(n => <option key={n.id} value={n.id}>{n.label ?? n.id}</option>)}
+            </select>
+            <select value={draftKind} onChange={e => setDraftKind(e.target.value as Breakpoint['kind'])} className="flex-1 min-w-0 bg-white border border-slate-200 rounded-md px-1 py-0.5" aria-label="断点条件">
+              {BREAKPOINT_KINDS.map(k => <option key={k.id} value={k.id}>{k.label}</option>)}
+            </select>
+            <button onClick={addBreakpoint} className="p-1 rounded-md text-blue-600 hover:bg-blue-50" title="添加断点" aria-label="添加断点">
+              <Plus size={14}/>
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlaybackTimeline;
@@ -0,0 +1,248 @@
+import React, { useEffect, useState } from 'react';
+import { Node, Edge, EdgeWeightDefaults, EdgeWeightMode, Selection } from '../types';
+import { parseEdgeWeight } from '../services/graph';
+import { getSingleSelection, describeSelection } from '../services/selection';
+import { SlidersHorizontal, ArrowRightLeft, Pin, PinOff, Copy, Trash2 } from 'lucide-react';
+
+interface PropertiesInspectorProps {
+  selection: Selection | null;
+  nodes: Node[];
+  edges: Edge[];
+  directed: boolean;
+  startNodeId: string;
+  endNodeId: string;
+  allowNegativeWeights: boolean;
+  onNodeChange: (id: string, patch: Partial<Node>) => void;
+  onEdgeChange: (id: string, patch: Partial<Edge>) => void;
+  onSetStart: (id: string) => void;
+  onSetEnd: (id: string) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  weightDefaults: EdgeWeightDefaults;
+  onWeightDefaultsChange: (defaults: EdgeWeightDefaults) => void;
+}
+
+// Text field that keeps a local draft and commits on Enter or blur; `validate` returns an error message or null
+const DraftField = ({ label, value, validate, onCommit, mono }: {
+  label: string;
+  value: string;
+  validate?: (text: string) => string | null;
+  onCommit: (text: string) => void;
+  mono?: boolean;
+}) => {
+  const [draft, setDraft] = useState(value);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(value);
+    setError(null);
+  }, [value]);
+
+  const commit = () => {
+    const problem = validate?.(draft) ?? null;
+    setError(problem);
+    if (!problem && draft !== value) onCommit(draft);
+  };
+
+  return (
+    <label className="block">
+      <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{label}</span>
+      <input
+        value={draft}
+        onChange={(e) => { setDraft(e.target.value); setError(null); }}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit();
+          if (e.key === 'Escape') { setDraft(value); setError(null); }
+        }}
+        onBlur={commit}
+        className={`mt-0.5 w-full px-2 py-1 rounded-md border text-xs outline-none focus:ring-2 ${mono ? 'font-mono' : ''} ${
+          error ? 'border-red-300 focus:ring-red-100 text-red-600' : 'border-slate-200 focus:ring-blue-100'
+        }`}
+      />
+      {error && <span className="block mt-0.5 text-[10px] text-red-500">{error}</span>}
+    </label>
+  );
+};
+
+const numberError = (text: string) => (text.trim() === '' || !Number.isFinite(Number(text)) ? '请输入数字' : null);
+
+const WEIGHT_MODES: { value: EdgeWeightMode, label: string }[] = [
+  { value: 'random', label: '随机 2–10' },
+  { value: 'fixed', label: '固定值' },
+  { value: 'euclidean', label: '端点欧氏距离' },
+];
+
+const PropertiesInspector: React.FC<PropertiesInspectorProps> = ({
+  selection,
+  nodes,
+  edges,
+  directed,
+  startNodeId,
+  endNodeId,
+  allowNegativeWeights,
+  onNodeChange,
+  onEdgeChange,
+  onSetStart,
+  onSetEnd,
+  onDuplicate,
+  onDelete,
+  weightDefaults,
+  onWeightDefaultsChange,
+}) => {
+  const single = getSingleSelection(selection);
+  const node = single?.type === 'node' ? nodes.find(n => n.id === single.id) : undefined;
+  const edge = single?.type === 'edge' ? edges.find(e => e.id === single.id) : undefined;
+  const multiple = selection && !single ? selection : null;
+  const parallelCount = edge && edge.source !== edge.target
+    ? edges.filter(e => e.id !== edge.id && ((e.source === edge.source && e.target === edge.target) || (e.source === edge.target && e.target === edge.source))).length
+    : 0;
+  const labelOf = (id: string) => nodes.find(n => n.id === id)?.label ?? id;
+  const weightError = (text: string) => {
+    const parsed = parseEdgeWeight(text, allowNegativeWeights);
+    return 'error' in parsed ? parsed.error : null;
+  };
+
+  return (
+    <div className="absolute bottom-4 left-4 w-60 bg-white/95 backdrop-blur rounded-xl shadow-lg border border-slate-200 p-3 z-10 text-xs text-slate-600">
+      <div className="flex items-center gap-2 text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">
+        <SlidersHorizontal size={12} />
+        {node ? `节点 ${node.label ?? node.id}` : edge ? '边属性' : multiple ? '多选' : '新边默认权值'}
+      </div>
+
+      {node && (
+        <div key={node.id} className="space-y-2">
+          <DraftField
+            label="标签"
+            value={node.label ?? ''}
+            validate={(text) => (text.trim() === '' ? '标签不能为空' : null)}
+            onCommit={(text) => onNodeChange(node.id, { label: text.trim() })}
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <DraftField label="x" mono value={String(Math.round(node.x))} validate={numberError} onCommit={(text) => onNodeChange(node.id, { x: Number(text) })} />
+            <DraftField label="y" mono value={String(Math.round(node.y))} validate={numberError} onCommit={(text) => onNodeChange(node.id, { y: Number(text) })} />
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => onSetStart(node.id)}
+              disabled={startNodeId === node.id}
+              className="flex-1 px-2 py-1 rounded-md font-bold bg-green-50 text-green-700 hover:bg-green-100 disabled:opacity-40"
+            >
+              {startNodeId === node.id ? '已是起点' : '设为起点'}
+            </button>
+            <button
+              onClick={() => onSetEnd(node.id)}
+              disabled={endNodeId === node.id}
+              className="flex-1 px-2 py-1 rounded-md font-bold bg-red-50 text-red-600 hover:bg-red-100 disabled:opacity-40"
+            >
+              {endNodeId === node.id ? '已是终点' : '设为终点'}
+            </button>
+          </div>
+          <button
+            onClick={() => onNodeChange(node.id, { pinned: !node.pinned })}
+            className={`w-full flex items-center justify-center gap-1.5 px-2 py-1 rounded-md font-bold ${
+              node.pinned ? 'bg-slate-700 text-white hover:bg-slate-600' : 'bg-slate-50 text-slate-500 hover:bg-slate-100'
+            }`}
+            title="固定的节点在自动布局时保持不动"
+          >
+            {node.pinned ? <><PinOff size={12} /> 取消固定位置</> : <><Pin size={12} /> 固定位置</>}
+          </button>
+          <div className="text-[10px] text-slate-400">
+            ID {node.id} · 关联边 {edges.filter(e => e.source === node.id || e.target === node.id).length} 条
+          </div>
+        </div>
+      )}
+
+      {edge && (
+        <div key={edge.id} className="space-y-2">
+          <div className="flex items-center justify-between gap-2 font-bold text-slate-700">
+            <span>{labelOf(edge.source)} {directed ? '→' : '—'} {labelOf(edge.target)}{edge.source === edge.target ? '（自环）' : ''}</span>
+            {directed && edge.source !== edge.target && (
+              <button
+                onClick={() => onEdgeChange(edge.id, { source: edge.target, target: edge.source })}
+                className="flex items-center gap-1 px-1.5 py-0.5 rounded-md text-[10px] text-slate-500 hover:bg-slate-100"
+                title="反转弧的方向"
+              >
+                <ArrowRightLeft size={12} /> 反向
+              </button>
+            )}
+          </div>
+          <DraftField
+            label="权值"
+            mono
+            value={String(edge.weight)}
+            validate={weightError}
+            onCommit={(text) => onEdgeChange(edge.id, { weight: Number(text.trim()) })}
+          />
+          <div className="text-[10px] text-slate-400">
+            {parallelCount > 0 && `与另外 ${parallelCount} 条边平行。`}也可在画布上双击权值直接修改。
+          </div>
+        </div>
+      )}
+
+      {multiple && (
+        <div className="space-y-2">
+          <div className="font-bold text-slate-700">已选 {describeSelection(multiple)}</div>
+          <div className="flex gap-2">
+            <button
+              onClick={onDuplicate}
+              disabled={multiple.nodeIds.length === 0}
+              className="flex-1 flex items-center justify-center gap-1 px-2 py-1 rounded-md font-bold bg-slate-50 text-slate-600 hover:bg-slate-100 disabled:opacity-40"
+              title="复制选中的节点及其之间的边 (Ctrl+D)"
+            >
+              <Copy size={12} /> 复制一份
+            </button>
+            <button
+              onClick={onDelete}
+              className="flex-1 flex items-center justify-center gap-1 px-2 py-1 rounded-md font-bold bg-red-50 text-red-600 hover:bg-red-100"
+              title="删除选中 (Delete)"
+            >
+              <Trash2 size={12} /> 删除
+            </button>
+          </div>
+          <div className="text-[10px] text-slate-400 leading-snug">
+            拖动任一选中节点可整体移动。Ctrl+C / Ctrl+X / Ctrl+V 复制、剪切、粘贴，Ctrl+A 全选。
+          </div>
+        </div>
+      )}
+
+      {!node && !edge && !multiple && (
+        <div className="space-y-2">
+          <div className="flex gap-1">
+            {WEIGHT_MODES.map(m => (
+              <button
+                key={m.value}
+                onClick={() => onWeightDefaultsChange({ ...weightDefaults, mode: m.value })}
+                className={`flex-1 px-1.5 py-1 rounded-md text-[10px] font-bold whitespace-nowrap ${
+                  weightDefaults.mode === m.value ? 'bg-blue-600 text-white' : 'bg-slate-50 text-slate-500 hover:bg-slate-100'
+                }`}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+          {weightDefaults.mode === 'fixed' && (
+            <DraftField
+              label="固定权值"
+              mono
+              value={String(weightDefaults.fixed)}
+              validate={weightError}
+              onCommit={(text) => onWeightDefaultsChange({ ...weightDefaults, fixed: Number(text.trim()) })}
+            />
+          )}
+          {weightDefaults.mode === 'euclidean' && (
+            <DraftField
+              label="距离 × 系数"
+              mono
+              value={String(weightDefaults.scale)}
+              validate={(text) => numberError(text) ?? (Number(text) <= 0 ? '系数必须大于 0' : null)}
+              onCommit={(text) => onWeightDefaultsChange({ ...weightDefaults, scale: Number(text) })}
+            />
+          )}
+          <div className="text-[10px] text-slate-400">选中节点或边可编辑其属性。</div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PropertiesInspector;
@@ -1,10 +1,10 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { AlgorithmStep } from '../types';
+import { StepTrace } from '../types';
 import { ChevronDown, ChevronRight, List } from 'lucide-react';
 
 interface StepListProps {
-  steps: AlgorithmStep[];
+  steps: StepTrace;
   currentIndex: number;
   onStepSelect: (index: number) => void;
 }
@@ -43,15 +43,15 @@ const StepList: React.FC<StepListProps> = ({ steps, currentIndex, onStepSelect }
 
       {isExpanded && (
         <div className="max-h-[160px] overflow-y-auto bg-slate-50/30 border-t border-slate-50 custom-scrollbar">
-            {steps.map((step, idx) => (
+            {steps.frames.map(({ meta: step }, idx) => (
                 <button
                     key={idx}
                     ref={idx === currentIndex ? activeRef : null}
                     onClick={() => onStepSelect(idx)}
                     className={`w-full text-left px-4 py-2.5 text-[11px] border-b border-slate-50 last:border-0 transition-all flex gap-3 group ${
                         idx === currentIndex 
-                        ? 'bg-blue-600 text-white font-bold' 
-                        : 'text-slate-500 hover:bg-white hover:text-slate-900'
+                        ? (step.severity === 'warning' ? 'bg-amber-500 text-white font-bold' : 'bg-blue-600 text-white font-bold')
+                        : (step.severity === 'warning' ? 'text-amber-700 bg-amber-50 hover:bg-amber-100' : 'text-slate-500 hover:bg-white hover:text-slate-900')
                     }`}
                 >
                     <span className={`font-mono shrink-0 w-4 text-right ${idx === currentIndex ? 'opacity-100' : 'opacity-30'}`}>
@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { Node, StepTrace, AlgorithmDefinition, TraceExportFormat } from '../types';
+import { TRACE_EXPORT_FORMATS, exportTableau, exportStepDescriptions } from '../services/traceExport';
+import { downloadFile, toFileName } from '../services/download';
+import { FileText, ChevronDown } from 'lucide-react';
+
+interface TraceExportMenuProps {
+  steps: StepTrace;
+  nodes: Node[];
+  algorithm: AlgorithmDefinition;
+  disabled: boolean; // The run is still streaming in
+}
+
+const TraceExportMenu: React.FC<TraceExportMenuProps> = ({ steps, nodes, algorithm, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const exports = [
+    ...(algorithm.tableau
+      ? [{ key: 'tableau', title: '迭代表', suffix: '迭代表', render: (format: TraceExportFormat) => exportTableau(steps, nodes, format, algorithm.name) }]
+      : []),
+    { key: 'steps', title: '步骤说明', suffix: '步骤', render: (format: TraceExportFormat) => exportStepDescriptions(steps, format, algorithm.name) },
+  ];
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="flex items-center gap-1 px-2 py-1 rounded-md text-[11px] font-bold text-slate-500 hover:bg-slate-100 disabled:opacity-30"
+        title={disabled ? '计算完成后可导出' : '导出迭代表或步骤说明'}
+      >
+        <FileText size={12} /> 导出 <ChevronDown size={12} />
+      </button>
+      {isOpen && !disabled && (
+        <div className="absolute right-0 bottom-full mb-1 w-48 bg-white rounded-lg shadow-lg border border-slate-200 p-2 z-30 space-y-2 text-[11px]">
+          {exports.map(item => (
+            <div key={item.key}>
+              <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">{item.title}</div>
+              <div className="flex gap-1">
+                {TRACE_EXPORT_FORMATS.map(f => (
+                  <button
+                    key={f.id}
+                    onClick={() => {
+                      downloadFile(toFileName(`${algorithm.shortName}-${item.suffix}`, f.extension), item.render(f.id), f.mimeType);
+                      setIsOpen(false);
+                    }}
+                    className="flex-1 px-1.5 py-1 rounded-md font-bold bg-slate-50 text-slate-600 hover:bg-blue-50 hover:text-blue-600"
+                  >
+                    {f.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+          {!algorithm.tableau && (
+            <div className="text-[10px] text-slate-400 leading-snug">{algorithm.shortName}不是逐个确定永久标号，没有迭代表。</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TraceExportMenu;
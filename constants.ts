@@ -1,5 +1,5 @@
 
-import { Node, Edge } from './types';
+import { Node, Edge, EdgeWeightDefaults, GraphExample } from './types';
 
 export const COLORS = {
   primary: '#3b82f6', // blue-500
@@ -13,8 +13,16 @@ export const COLORS = {
   unvisited: '#cbd5e1',
   start: '#22c55e',
   end: '#ef4444',
+  backward: '#8b5cf6', // violet-500
+  backwardTemporary: '#c4b5fd', // violet-300
+  meeting: '#ec4899', // pink-500
 };
 
+// Distinct colours for highlighting several result paths at once
+export const PATH_COLORS = ['#22c55e', '#8b5cf6', '#ec4899', '#0ea5e9', '#f97316', '#14b8a6', '#a16207', '#6366f1'];
+
+export const DEFAULT_EDGE_WEIGHT: EdgeWeightDefaults = { mode: 'random', fixed: 1, scale: 0.05 };
+
 // 坐标优化：将 x 坐标减少 75 像素（左移 2 厘米），y 坐标保持之前下移后的位置
 export const INITIAL_NODES: Node[] = [
   { id: '1', x: 145, y: 225, label: 'v1' },
@@ -36,3 +44,75 @@ export const INITIAL_EDGES: Edge[] = [
   { id: 'e8', source: '4', target: '6', weight: 6 },
   { id: 'e9', source: '5', target: '6', weight: 3 },
 ];
+
+// --- Built-in examples for the graph library ---
+
+const edgeList = (list: [string, string, number][]): Edge[] =>
+  list.map(([source, target, weight], i) => ({ id: `e${i + 1}`, source, target, weight }));
+
+// 4 × 6 grid; weight 6 per 120px spacing, so A* with Euclidean h × 0.05 is exact. The heavy
+// column in the middle makes the shortest path detour around it.
+const gridExample = (): GraphExample['graph'] => {
+  const rows = 4;
+  const cols = 6;
+  const nodes: Node[] = [];
+  const list: [string, string, number][] = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const id = `${r * cols + c + 1}`;
+      nodes.push({ id, x: 100 + c * 120, y: 80 + r * 120, label: `v${id}` });
+      if (c > 0) list.push([`${r * cols + c}`, id, c === 3 && r < 3 ? 50 : 6]);
+      if (r > 0) list.push([`${(r - 1) * cols + c + 1}`, id, 6]);
+    }
+  }
+  return { nodes, edges: edgeList(list), startNodeId: '1', endNodeId: `${cols}`, directed: false };
+};
+
+const row = (ids: string[], xs: number[], ys: number[]): Node[] =>
+  ids.map((id, i) => ({ id, x: xs[i], y: ys[i], label: `v${id}` }));
+
+export const EXAMPLE_GRAPHS: GraphExample[] = [
+  {
+    name: '教材例题',
+    description: '6 个节点的无向图，双标号法的标准例题。',
+    graph: { nodes: INITIAL_NODES, edges: INITIAL_EDGES, startNodeId: '1', endNodeId: '6', directed: false },
+  },
+  {
+    name: '含负权的有向图',
+    description: '有负权弧但无负回路：双标号法可能出错，Bellman-Ford 给出正确结果。',
+    graph: {
+      nodes: row(['1', '2', '3', '4', '5', '6'], [145, 345, 345, 545, 545, 745], [225, 125, 325, 125, 325, 225]),
+      edges: edgeList([['1', '2', 6], ['1', '3', 4], ['3', '2', -3], ['2', '4', 5], ['3', '5', 3], ['5', '4', -2], ['4', '6', 3], ['5', '6', 5]]),
+      startNodeId: '1',
+      endNodeId: '6',
+      directed: true,
+    },
+  },
+  {
+    name: '负回路',
+    description: 'v2 → v3 → v4 → v2 的总权值为 -2，最短路无定义，用于演示负回路检测。',
+    graph: {
+      nodes: row(['1', '2', '3', '4', '5'], [145, 345, 545, 445, 745], [225, 125, 125, 325, 225]),
+      edges: edgeList([['1', '2', 1], ['2', '3', -2], ['3', '4', 1], ['4', '2', -1], ['4', '5', 2], ['1', '5', 10]]),
+      startNodeId: '1',
+      endNodeId: '5',
+      directed: true,
+    },
+  },
+  {
+    name: '并列最短路',
+    description: '多条长度相同的最短路，可开启“保留全部并列最短路”查看。',
+    graph: {
+      nodes: row(['1', '2', '3', '4', '5', '6', '7'], [120, 260, 260, 400, 540, 540, 680], [225, 125, 325, 225, 125, 325, 225]),
+      edges: edgeList([['1', '2', 2], ['1', '3', 2], ['2', '4', 2], ['3', '4', 2], ['4', '5', 1], ['4', '6', 1], ['5', '7', 1], ['6', '7', 1]]),
+      startNodeId: '1',
+      endNodeId: '7',
+      directed: false,
+    },
+  },
+  {
+    name: '网格图（A* 对比）',
+    description: '4 × 6 网格，中间上三行的横向边权值很大，最短路需绕行底部。对比 A* 与双标号法展开的节点数。',
+    graph: gridExample(),
+  },
+];
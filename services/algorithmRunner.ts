@@ -0,0 +1,103 @@
+import { AlgorithmType, RunProgress, TraceFrame, TraceKeyframe, WorkerCancelRequest, WorkerResponse, WorkerRunRequest } from '../types';
+
+// How long a cancelled run may keep the worker busy before the worker is terminated
+const CANCEL_TIMEOUT_MS = 300;
+
+export interface RunHandlers {
+  onChunk: (frames: TraceFrame[], keyframes: TraceKeyframe[], progress: RunProgress) => void;
+  onDone: (progress: RunProgress) => void;
+  onError: (message: string) => void;
+}
+
+export interface AlgorithmRunner {
+  run: (algorithmId: AlgorithmType, input: WorkerRunRequest['input'], handlers: RunHandlers) => void;
+  cancel: () => void;
+}
+
+/**
+ * Runs algorithms off the UI thread. Only the latest run reports back; starting a new
+ * run cancels the previous one. Cancelling sends a cancel request; a run occupies the
+ * worker until it returns, so a worker that does not acknowledge in time is terminated
+ * and the current run, if any, is resent to a fresh one.
+ */
+export const createAlgorithmRunner = (): AlgorithmRunner => {
+  let worker: Worker | null = null;
+  let handlers: RunHandlers | null = null;
+  let currentRunId = 0;
+  let currentRequest: WorkerRunRequest | null = null;
+  let cancelledRunId = 0;
+  let cancelTimer: number | null = null;
+
+  const clearCancelTimer = () => {
+    if (cancelTimer !== null) clearTimeout(cancelTimer);
+    cancelTimer = null;
+  };
+
+  const terminate = () => {
+    clearCancelTimer();
+    worker?.terminate();
+    worker = null;
+  };
+
+  const cancel = () => {
+    if (handlers && worker) {
+      cancelledRunId = currentRunId;
+      const request: WorkerCancelRequest = { type: 'cancel', runId: currentRunId };
+      worker.postMessage(request);
+      if (cancelTimer === null) {
+        cancelTimer = window.setTimeout(() => {
+          terminate();
+          if (currentRequest) getWorker().postMessage(currentRequest);
+        }, CANCEL_TIMEOUT_MS);
+      }
+    }
+    handlers = null;
+    currentRequest = null;
+  };
+
+  const getWorker = () => {
+    if (worker) return worker;
+    worker = new Worker(new URL('./algorithmWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      // The worker reached the latest cancel, so it is free for the current run
+      if (message.type === 'cancelled') {
+        if (message.runId === cancelledRunId) clearCancelTimer();
+        return;
+      }
+      if (message.runId !== currentRunId || !handlers) return;
+      if (message.type === 'chunk') {
+        handlers.onChunk(message.frames, message.keyframes, message.progress);
+      } else if (message.type === 'done') {
+        const { onDone } = handlers;
+        handlers = null;
+        currentRequest = null;
+        onDone(message.progress);
+      } else {
+        const { onError } = handlers;
+        handlers = null;
+        currentRequest = null;
+        onError(message.message);
+      }
+    };
+    worker.onerror = (event) => {
+      const onError = handlers?.onError;
+      handlers = null;
+      currentRequest = null;
+      terminate();
+      onError?.(event.message);
+    };
+    return worker;
+  };
+
+  return {
+    run: (algorithmId, input, runHandlers) => {
+      cancel();
+      currentRunId++;
+      handlers = runHandlers;
+      currentRequest = { type: 'run', runId: currentRunId, algorithmId, input };
+      getWorker().postMessage(currentRequest);
+    },
+    cancel,
+  };
+};
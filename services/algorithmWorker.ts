@@ -0,0 +1,60 @@
+import { RunProgress, TraceFrame, TraceKeyframe, WorkerResponse, WorkerRequest, WorkerRunRequest } from '../types';
+import { getAlgorithm } from './algorithms';
+import { createTraceRecorder } from './trace';
+
+// Frames are batched and posted at most this often while a run is in progress
+const FLUSH_INTERVAL_MS = 100;
+
+const worker = self as unknown as Worker;
+const post = (message: WorkerResponse) => worker.postMessage(message);
+
+// Runs up to this id have been cancelled and report nothing more
+let cancelledRunId = 0;
+
+const runAlgorithm = ({ runId, algorithmId, input }: WorkerRunRequest) => {
+  if (runId <= cancelledRunId) return;
+  const progress: RunProgress = { steps: 0, settled: 0, total: input.nodes.length };
+  let frames: TraceFrame[] = [];
+  let keyframes: TraceKeyframe[] = [];
+  let lastFlush = performance.now();
+
+  const flush = () => {
+    if (runId <= cancelledRunId) return;
+    post({ type: 'chunk', runId, frames, keyframes, progress: { ...progress } });
+    frames = [];
+    keyframes = [];
+    lastFlush = performance.now();
+  };
+
+  const recorder = createTraceRecorder((frame, keyframe, step) => {
+    frames.push(frame);
+    if (keyframe) keyframes.push(keyframe);
+    progress.steps++;
+    progress.settled = step.permanentNodes.length;
+    // The first step goes out at once so playback can begin while the run continues
+    if (progress.steps === 1 || performance.now() - lastFlush >= FLUSH_INTERVAL_MS) flush();
+  });
+
+  try {
+    getAlgorithm(algorithmId).run({ ...input, recorder });
+    if (frames.length > 0) flush();
+    if (runId > cancelledRunId) post({ type: 'done', runId, progress });
+  } catch (err) {
+    if (runId > cancelledRunId) post({ type: 'error', runId, message: err instanceof Error ? err.message : String(err) });
+  }
+};
+
+/**
+ * Requests are handled in order, so a cancel is seen once the run before it has
+ * returned (or straight away when the worker is idle); the runner falls back to
+ * terminating a worker that stays busy.
+ */
+worker.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'cancel') {
+    cancelledRunId = Math.max(cancelledRunId, request.runId);
+    post({ type: 'cancelled', runId: request.runId });
+  } else {
+    runAlgorithm(request);
+  }
+};
@@ -0,0 +1,275 @@
+import { AlgorithmDefinition, AlgorithmType, AlgorithmOptionField, AlgorithmOptionValues, HeuristicKind, LegendItem, StepColumn } from '../types';
+import { COLORS } from '../constants';
+import { runDoubleLabeling } from './dijkstra';
+import { runBellmanFord } from './bellmanFord';
+import { runFloydWarshall } from './floyd';
+import { runAStar, DEFAULT_ASTAR_OPTIONS } from './astar';
+import { runYenKShortest, DEFAULT_K } from './yen';
+import { runBidirectionalDijkstra } from './bidirectional';
+import { runShortestPathTree } from './shortestPathTree';
+
+const fmt = (v: number | undefined) =>
+  v === Infinity || v === undefined ? '∞' : `${Math.round(v * 100) / 100}`;
+
+// --- Shared column and legend building blocks ---
+
+const distanceColumn: StepColumn = {
+  key: 'distance',
+  header: 'd (距离)',
+  value: (state) => fmt(state.distance),
+  mono: true,
+};
+
+const parentColumn: StepColumn = {
+  key: 'parent',
+  header: 'p (前驱)',
+  value: (state, { node, nodes }) => {
+    const labelOf = (id: string) => nodes.find(n => n.id === id)?.label ?? id;
+    // With ties tracked every optimal predecessor is listed (once, even when tied parallel edges lead from it)
+    const parents = [...new Set(state.parents ?? (state.parent ? [state.parent] : []))].filter(p => p !== node.id);
+    return parents.length === 0 ? '-' : parents.map(labelOf).join('、');
+  },
+};
+
+const statusColumn: StepColumn = {
+  key: 'status',
+  header: '状态',
+  value: (state) => (state.status === 'permanent' ? 'P (永久)' : 'T (临时)'),
+  badge: true,
+};
+
+// Bidirectional search keeps a second label per node on `step.backwardStates`
+const backwardDistanceColumn: StepColumn = {
+  key: 'backwardDistance',
+  header: 'd← (反向)',
+  value: (_, { node, step }) => fmt(step.backwardStates?.[node.id]?.distance),
+  mono: true,
+};
+
+const backwardSuccessorColumn: StepColumn = {
+  key: 'backwardSuccessor',
+  header: 's← (后继)',
+  value: (_, { node, nodes, step }) => {
+    const next = step.backwardStates?.[node.id]?.parent;
+    return !next || next === node.id ? '-' : nodes.find(n => n.id === next)?.label ?? next;
+  },
+};
+
+const LABEL_LEGEND: LegendItem[] = [
+  { label: 'P永久', color: COLORS.permanent },
+  { label: 'T临时', color: COLORS.temporary },
+  { label: '起点', color: COLORS.start },
+  { label: '终点', color: COLORS.end },
+];
+
+// --- Registry ---
+
+export const ALGORITHMS: AlgorithmDefinition[] = [
+  {
+    id: AlgorithmType.DOUBLE_LABELING,
+    name: '最短路双标号法',
+    shortName: '双标号法',
+    description: '逐个选定临时标号最小的节点为永久标号（Dijkstra），要求权值非负。',
+    inputs: { start: 'required', end: 'required' },
+    features: { directed: true, undirected: true, negativeWeights: false },
+    panel: 'labels',
+    columns: [distanceColumn, parentColumn, statusColumn],
+    legend: LABEL_LEGEND,
+    resultsTitle: '全部最短路径',
+    options: [
+      { key: 'allTies', label: '保留全部并列最短路', type: 'boolean', default: false },
+    ],
+    tableau: true,
+    run: ({ nodes, edges, startNodeId, endNodeId, directed, options, recorder }) =>
+      runDoubleLabeling(nodes, edges, startNodeId, endNodeId, directed, Boolean(options.allTies), recorder),
+  },
+  {
+    id: AlgorithmType.BELLMAN_FORD,
+    name: 'Bellman-Ford 算法',
+    shortName: 'Bellman-Ford',
+    description: '对全部弧反复松弛至多 |V|-1 轮，允许负权并能检测负回路。',
+    inputs: { start: 'required', end: 'optional' },
+    features: { directed: true, undirected: true, negativeWeights: true },
+    panel: 'labels',
+    columns: [distanceColumn, parentColumn, statusColumn],
+    legend: [
+      { label: '已确定', color: COLORS.permanent },
+      { label: '已到达', color: COLORS.temporary },
+      { label: '起点', color: COLORS.start },
+      { label: '负回路', color: COLORS.danger },
+    ],
+    run: ({ nodes, edges, startNodeId, endNodeId, directed, recorder }) =>
+      runBellmanFord(nodes, edges, startNodeId, endNodeId, directed, recorder),
+  },
+  {
+    id: AlgorithmType.FLOYD_WARSHALL,
+    name: 'Floyd 算法',
+    shortName: 'Floyd',
+    description: '依次以每个节点为中间点更新距离矩阵，一次求出任意两点间的最短路。',
+    inputs: { start: 'optional', end: 'optional' },
+    features: { directed: true, undirected: true, negativeWeights: true },
+    panel: 'matrix',
+    columns: [],
+    legend: [
+      { label: '本步更新', color: '#fde68a' },
+      { label: '中间点 k', color: COLORS.warning },
+      { label: '选中路径', color: COLORS.success },
+      { label: '负回路', color: COLORS.danger },
+    ],
+    run: ({ nodes, edges, startNodeId, endNodeId, directed, recorder }) =>
+      runFloydWarshall(nodes, edges, startNodeId, endNodeId, directed, recorder),
+  },
+  {
+    id: AlgorithmType.A_STAR,
+    name: 'A* 启发式搜索',
+    shortName: 'A*',
+    description: '按 f = g + h 选择扩展节点，h 由节点坐标估计到终点的距离。',
+    inputs: { start: 'required', end: 'required' },
+    features: { directed: true, undirected: true, negativeWeights: false },
+    panel: 'labels',
+    columns: [
+      { ...distanceColumn, header: 'g (已走)' },
+      { key: 'heuristic', header: 'h (估计)', value: (state) => fmt(state.heuristic), mono: true },
+      {
+        key: 'f',
+        header: 'f = g + h',
+        value: (state) => fmt(state.distance + (state.heuristic ?? 0)),
+        mono: true,
+      },
+      parentColumn,
+      { ...statusColumn, value: (state) => (state.status === 'permanent' ? '关闭' : '开放') },
+    ],
+    legend: [
+      { label: '关闭', color: COLORS.permanent },
+      { label: '开放', color: COLORS.temporary },
+      { label: '起点', color: COLORS.start },
+      { label: '终点', color: COLORS.end },
+    ],
+    options: [
+      {
+        key: 'heuristic',
+        label: '启发函数',
+        type: 'select',
+        default: DEFAULT_ASTAR_OPTIONS.heuristic,
+        choices: [
+          { value: 'euclidean', label: '欧氏距离' },
+          { value: 'manhattan', label: '曼哈顿距离' },
+        ],
+      },
+      { key: 'scale', label: '× 系数', type: 'number', default: DEFAULT_ASTAR_OPTIONS.scale, min: 0, step: 0.005 },
+    ],
+    tableau: true,
+    run: ({ nodes, edges, startNodeId, endNodeId, directed, options, recorder }) =>
+      runAStar(nodes, edges, startNodeId, endNodeId, directed, {
+        heuristic: options.heuristic as HeuristicKind,
+        scale: Number(options.scale),
+      }, recorder),
+  },
+  {
+    id: AlgorithmType.K_SHORTEST,
+    name: 'K 短路（Yen 算法）',
+    shortName: 'K 短路',
+    description: '以已求路径上的每个节点为偏离点，用双标号法求偏离路径，依次得到第 2、3、…、k 短的无环路径。',
+    inputs: { start: 'required', end: 'required' },
+    features: { directed: true, undirected: true, negativeWeights: false },
+    panel: 'labels',
+    columns: [{ ...distanceColumn, header: 'd (沿当前路径)' }, parentColumn],
+    legend: [
+      { label: '当前路径', color: COLORS.permanent },
+      { label: '偏离点', color: COLORS.warning },
+      { label: '起点', color: COLORS.start },
+      { label: '终点', color: COLORS.end },
+    ],
+    resultsTitle: 'K 条最短无环路径',
+    options: [
+      { key: 'k', label: 'k =', type: 'number', default: DEFAULT_K, min: 1, step: 1 },
+    ],
+    run: ({ nodes, edges, startNodeId, endNodeId, directed, options, recorder }) =>
+      runYenKShortest(nodes, edges, startNodeId, endNodeId, directed, Math.max(1, Math.floor(Number(options.k))), recorder),
+  },
+  {
+    id: AlgorithmType.BIDIRECTIONAL,
+    name: '双向双标号法',
+    shortName: '双向搜索',
+    description: '从起点正向、从终点反向同时标号，两侧最小临时标号之和不小于已知路长时停止。',
+    inputs: { start: 'required', end: 'required' },
+    features: { directed: true, undirected: true, negativeWeights: false },
+    panel: 'labels',
+    columns: [
+      { ...distanceColumn, header: 'd→ (正向)' },
+      { ...parentColumn, header: 'p→ (前驱)' },
+      backwardDistanceColumn,
+      backwardSuccessorColumn,
+      {
+        key: 'status',
+        header: '状态',
+        value: (state, { node, step }) => {
+          const forward = state.status === 'permanent';
+          const backward = step.backwardStates?.[node.id]?.status === 'permanent';
+          if (step.meetingNodeId === node.id) return '相遇点';
+          return forward && backward ? '双向 P' : forward ? '正向 P' : backward ? '反向 P' : 'T';
+        },
+        badge: true,
+      },
+    ],
+    legend: [
+      { label: '正向 P', color: COLORS.permanent },
+      { label: '反向 P', color: COLORS.backward },
+      { label: '相遇点', color: COLORS.meeting },
+      { label: '临时', color: COLORS.temporary },
+    ],
+    resultsTitle: '最短路径',
+    run: ({ nodes, edges, startNodeId, endNodeId, directed, recorder }) =>
+      runBidirectionalDijkstra(nodes, edges, startNodeId, endNodeId, directed, recorder),
+  },
+  {
+    id: AlgorithmType.SHORTEST_PATH_TREE,
+    name: '最短路树（单源全终点）',
+    shortName: '最短路树',
+    description: '双标号法不在终点提前停止，直到所有可达节点都获得永久标号，一次求出起点到每个节点的最短路。',
+    inputs: { start: 'required', end: 'unused' },
+    features: { directed: true, undirected: true, negativeWeights: false },
+    panel: 'labels',
+    columns: [distanceColumn, parentColumn, statusColumn],
+    legend: [
+      { label: 'P永久', color: COLORS.permanent },
+      { label: 'T临时', color: COLORS.temporary },
+      { label: '起点', color: COLORS.start },
+      { label: '未到达', color: COLORS.unvisited },
+    ],
+    resultsTitle: '各目的地最短路',
+    resultsView: 'destinations',
+    tableau: true,
+    run: ({ nodes, edges, startNodeId, directed, recorder }) =>
+      runShortestPathTree(nodes, edges, startNodeId, directed, recorder),
+  },
+];
+
+export const getAlgorithm = (id: AlgorithmType): AlgorithmDefinition =>
+  ALGORITHMS.find(a => a.id === id) ?? ALGORITHMS[0];
+
+export const getDefaultOptions = (definition: AlgorithmDefinition): AlgorithmOptionValues => {
+  const values: AlgorithmOptionValues = {};
+  definition.options?.forEach(field => { values[field.key] = field.default; });
+  return values;
+};
+
+const isValidOption = (field: AlgorithmOptionField, value: unknown) => {
+  if (field.type === 'select') return typeof value === 'string' && !!field.choices?.some(c => c.value === value);
+  if (field.type === 'boolean') return typeof value === 'boolean';
+  return typeof value === 'number' && Number.isFinite(value) && (field.min === undefined || value >= field.min);
+};
+
+/**
+ * Options from outside the app (e.g. a shared link) checked against the algorithm's
+ * fields: unknown keys and invalid values are dropped and the rest override the defaults.
+ */
+export const sanitizeOptions = (definition: AlgorithmDefinition, raw: unknown): AlgorithmOptionValues => {
+  const values = getDefaultOptions(definition);
+  if (!raw || typeof raw !== 'object') return values;
+  definition.options?.forEach(field => {
+    const value = (raw as Record<string, unknown>)[field.key];
+    if (isValidOption(field, value)) values[field.key] = value as string | number | boolean;
+  });
+  return values;
+};
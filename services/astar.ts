@@ -0,0 +1,184 @@
+import { Node, Edge, StepTrace, TraceRecorder, AlgorithmNodeState, AStarOptions, FrontierEntry } from '../types';
+import { buildAdjacency } from './graph';
+import { computeShortestDistances } from './dijkstra';
+import { createMinHeap } from './priorityQueue';
+import { createTraceRecorder } from './trace';
+
+// Tolerance for floating point heuristics when comparing against true distances
+const EPSILON = 1e-9;
+
+export const DEFAULT_ASTAR_OPTIONS: AStarOptions = { heuristic: 'euclidean', scale: 0.01 };
+
+const round = (v: number) => Math.round(v * 100) / 100;
+
+export const computeHeuristic = (node: Node, goal: Node, options: AStarOptions): number => {
+  const dx = Math.abs(node.x - goal.x);
+  const dy = Math.abs(node.y - goal.y);
+  const raw = options.heuristic === 'manhattan' ? dx + dy : Math.hypot(dx, dy);
+  return round(raw * options.scale);
+};
+
+export const runAStar = (
+  nodes: Node[],
+  edges: Edge[],
+  startNodeId: string,
+  endNodeId: string,
+  directed: boolean = false,
+  options: AStarOptions = DEFAULT_ASTAR_OPTIONS,
+  trace: TraceRecorder = createTraceRecorder()
+): StepTrace => {
+  const labelOf = (id: string) => nodes.find(n => n.id === id)?.label ?? id;
+  const fmt = (d: number) => (d === Infinity ? '∞' : `${round(d)}`);
+  const goal = nodes.find(n => n.id === endNodeId);
+  if (!goal) return trace.finish();
+
+  const nodeStates: Record<string, AlgorithmNodeState> = {};
+  nodes.forEach(node => {
+    nodeStates[node.id] = {
+      distance: node.id === startNodeId ? 0 : Infinity,
+      parent: node.id === startNodeId ? startNodeId : null,
+      parentEdge: null,
+      status: node.id === startNodeId ? 'temporary' : 'unvisited',
+      heuristic: computeHeuristic(node, goal, options),
+    };
+  });
+  const f = (id: string) => nodeStates[id].distance + nodeStates[id].heuristic!;
+
+  // Open list keyed on f; ties prefer the smaller h, then node order. Stale entries
+  // left behind by a decreased g are skipped when popped.
+  const order = new Map(nodes.map((n, i) => [n.id, i]));
+  const compareEntries = (a: FrontierEntry, b: FrontierEntry) =>
+    a.priority - b.priority ||
+    nodeStates[a.nodeId].heuristic! - nodeStates[b.nodeId].heuristic! ||
+    order.get(a.nodeId)! - order.get(b.nodeId)!;
+  const openList = createMinHeap<FrontierEntry>(compareEntries);
+  const isCurrent = (entry: FrontierEntry) =>
+    nodeStates[entry.nodeId].status !== 'permanent' && f(entry.nodeId) === entry.priority;
+  if (nodeStates[startNodeId]) openList.push({ nodeId: startNodeId, priority: f(startNodeId) });
+  const adjacency = buildAdjacency(edges, directed);
+
+  // Labels touched since the last step; the trace compares and copies only these
+  const touched = new Set<string>();
+
+  const snapshot = (
+    desc: string,
+    active: string | null,
+    edge: string | null,
+    perms: string[],
+    severity?: 'warning'
+  ) => {
+    trace.push({
+      stepIndex: trace.length(),
+      description: desc,
+      activeNodeId: active,
+      checkingEdgeId: edge,
+      nodeStates: nodeStates,
+      permanentNodes: perms,
+      frontier: openList.toArray().filter(isCurrent).sort(compareEntries),
+      ...(severity ? { severity } : {})
+    }, touched);
+    touched.clear();
+  };
+
+  const permanentNodes: string[] = [];
+  const heuristicName = options.heuristic === 'manhattan' ? '曼哈顿距离' : '欧氏距离';
+
+  snapshot(
+    `初始化：h(v) 取节点到终点 ${labelOf(endNodeId)} 的${heuristicName} × ${options.scale}。起点 g=0，f = g + h = ${fmt(f(startNodeId))}。`,
+    null,
+    null,
+    permanentNodes
+  );
+
+  // Admissibility: h must never exceed the true remaining cost h*
+  const trueRemaining = computeShortestDistances(nodes, edges, endNodeId, directed, true);
+  const overestimated = nodes.filter(n =>
+    trueRemaining[n.id] !== Infinity && nodeStates[n.id].heuristic! > trueRemaining[n.id] + EPSILON
+  );
+  if (overestimated.length > 0) {
+    const detail = overestimated.slice(0, 4)
+      .map(n => `${n.label}: h=${fmt(nodeStates[n.id].heuristic!)} > h*=${fmt(trueRemaining[n.id])}`)
+      .join('，');
+    snapshot(
+      `警告：当前启发函数不可采纳（高估了剩余距离）——${detail}${overestimated.length > 4 ? ' …' : ''}。A* 可能返回非最优路径，可减小缩放系数后对比。`,
+      null,
+      null,
+      permanentNodes,
+      'warning'
+    );
+  }
+
+  while (true) {
+    // Select the open node with the smallest f
+    let entry = openList.pop();
+    while (entry && !isCurrent(entry)) entry = openList.pop();
+
+    if (!entry) {
+      snapshot("开放列表为空，终点不可达。算法结束。", null, null, permanentNodes);
+      break;
+    }
+    const u = entry.nodeId;
+
+    nodeStates[u].status = 'permanent';
+    touched.add(u);
+    permanentNodes.push(u);
+    snapshot(
+      `选定 f 最小的节点 ${labelOf(u)}（g=${fmt(nodeStates[u].distance)}, h=${fmt(nodeStates[u].heuristic!)}, f=${fmt(f(u))}），移入关闭列表。`,
+      u,
+      null,
+      permanentNodes
+    );
+
+    if (u === endNodeId) {
+      const found = nodeStates[u].distance;
+      const optimal = trueRemaining[startNodeId];
+      if (found > optimal + EPSILON) {
+        snapshot(
+          `已到达终点 ${labelOf(u)}，路径长度 ${fmt(found)}，但真实最短距离为 ${fmt(optimal)}——不可采纳的启发函数让 A* 过早关闭了最优路径上的节点。`,
+          u,
+          null,
+          permanentNodes,
+          'warning'
+        );
+      } else {
+        snapshot(
+          `已到达终点 ${labelOf(u)}，最短路径长度 ${fmt(found)}。共关闭 ${permanentNodes.length} / ${nodes.length} 个节点。`,
+          u,
+          null,
+          permanentNodes
+        );
+      }
+      break;
+    }
+
+    for (const { edge, to: targetId } of adjacency.get(u) ?? []) {
+      if (nodeStates[targetId].status === 'permanent') continue;
+      const newDist = nodeStates[u].distance + edge.weight;
+      const currentDist = nodeStates[targetId].distance;
+
+      if (newDist < currentDist) {
+        nodeStates[targetId].distance = newDist;
+        nodeStates[targetId].parent = u;
+        nodeStates[targetId].parentEdge = edge.id;
+        nodeStates[targetId].status = 'temporary';
+        touched.add(targetId);
+        openList.push({ nodeId: targetId, priority: f(targetId) });
+        snapshot(
+          `更新节点 ${labelOf(targetId)}：g 由 ${fmt(currentDist)} 更新为 ${fmt(newDist)}，h=${fmt(nodeStates[targetId].heuristic!)}，f=${fmt(f(targetId))} (来自 ${labelOf(u)})。`,
+          u,
+          edge.id,
+          permanentNodes
+        );
+      } else {
+        snapshot(
+          `检查节点 ${labelOf(targetId)}：现有 g=${fmt(currentDist)} <= 新路径 ${fmt(newDist)}，不更新。`,
+          u,
+          edge.id,
+          permanentNodes
+        );
+      }
+    }
+  }
+
+  return trace.finish();
+};
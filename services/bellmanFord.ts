@@ -0,0 +1,173 @@
+import { Node, Edge, StepTrace, TraceRecorder, AlgorithmNodeState, NegativeCycle } from '../types';
+import { getAllArcs, findArcEdge } from './graph';
+import { createTraceRecorder } from './trace';
+
+export const runBellmanFord = (
+  nodes: Node[],
+  edges: Edge[],
+  startNodeId: string,
+  endNodeId: string,
+  directed: boolean = false,
+  trace: TraceRecorder = createTraceRecorder()
+): StepTrace => {
+  const labelOf = (id: string) => nodes.find(n => n.id === id)?.label ?? id;
+  const fmt = (d: number) => (d === Infinity ? '∞' : `${d}`);
+
+  // Initialize states
+  const nodeStates: Record<string, AlgorithmNodeState> = {};
+  nodes.forEach(node => {
+    nodeStates[node.id] = {
+      distance: node.id === startNodeId ? 0 : Infinity,
+      parent: node.id === startNodeId ? startNodeId : null,
+      parentEdge: null,
+      status: node.id === startNodeId ? 'temporary' : 'unvisited',
+    };
+  });
+
+  // Labels touched since the last step; the trace compares and copies only these
+  const touched = new Set<string>();
+
+  const snapshot = (
+    desc: string,
+    active: string | null,
+    edge: string | null,
+    perms: string[],
+    negativeCycle?: NegativeCycle
+  ) => {
+    trace.push({
+      stepIndex: trace.length(),
+      description: desc,
+      activeNodeId: active,
+      checkingEdgeId: edge,
+      nodeStates: nodeStates,
+      permanentNodes: perms,
+      ...(negativeCycle ? { negativeCycle, severity: 'warning' as const } : {})
+    }, touched);
+    touched.clear();
+  };
+
+  const arcs = getAllArcs(edges, directed);
+
+  /**
+   * The negative cycle behind a node still improvable after |V|-1 passes: walking |V|
+   * parents back is guaranteed to land on it. Null when the walk runs out of parents or
+   * ends at the start node, which has no incoming edge recorded.
+   */
+  const traceParentCycle = (from: string): NegativeCycle | null => {
+    let onCycle: string | null = from;
+    for (let i = 0; i < nodes.length && onCycle; i++) onCycle = nodeStates[onCycle].parent;
+    if (!onCycle) return null;
+
+    const nodeIds: string[] = [];
+    const edgeIds: string[] = [];
+    let cur = onCycle;
+    do {
+      const parent = nodeStates[cur].parent;
+      // The recorded edge keeps the cycle on the parallel edge that closed it; the start
+      // node is its own parent until relaxed and has no edge to fall back on
+      const edgeId = nodeStates[cur].parentEdge ?? (parent && parent !== cur ? findArcEdge(edges, parent, cur, directed)?.id : undefined);
+      if (!parent || !edgeId || nodeIds.length >= nodes.length) return null;
+      nodeIds.push(cur);
+      edgeIds.push(edgeId);
+      cur = parent;
+    } while (cur !== onCycle);
+    return { nodeIds: nodeIds.reverse(), edgeIds: edgeIds.reverse() };
+  };
+
+  snapshot(
+    `初始化：起点标号 [0, 起点]，其他节点为 [∞, -]。Bellman-Ford 最多进行 ${Math.max(nodes.length - 1, 0)} 轮松弛，允许负权边。`,
+    null,
+    null,
+    []
+  );
+
+  let converged = false;
+  for (let pass = 1; pass < nodes.length; pass++) {
+    let changed = false;
+    snapshot(`第 ${pass} 轮：依次检查全部 ${arcs.length} 条弧。`, null, null, []);
+
+    for (const { edge, from, to } of arcs) {
+      const fromDist = nodeStates[from].distance;
+      // Arcs leaving a node that has not been reached yet cannot relax anything
+      if (fromDist === Infinity) continue;
+
+      const newDist = fromDist + edge.weight;
+      const currentDist = nodeStates[to].distance;
+      if (newDist < currentDist) {
+        nodeStates[to].distance = newDist;
+        nodeStates[to].parent = from;
+        nodeStates[to].parentEdge = edge.id;
+        nodeStates[to].status = 'temporary';
+        touched.add(to);
+        changed = true;
+        snapshot(
+          `第 ${pass} 轮：经 ${labelOf(from)} → ${labelOf(to)} (w=${edge.weight}) 更新 ${labelOf(to)}：${fmt(currentDist)} → ${newDist}。`,
+          from,
+          edge.id,
+          []
+        );
+      } else {
+        snapshot(
+          `第 ${pass} 轮：检查 ${labelOf(from)} → ${labelOf(to)}：现有距离 ${fmt(currentDist)} <= 新路径 ${newDist}，不更新。`,
+          from,
+          edge.id,
+          []
+        );
+      }
+    }
+
+    if (!changed) {
+      converged = true;
+      snapshot(`第 ${pass} 轮没有任何标号被更新，提前终止。`, null, null, []);
+      break;
+    }
+  }
+
+  // A further improvement after |V|-1 passes can only come from a negative cycle
+  if (!converged) {
+    const violating = arcs.find(({ edge, from, to }) =>
+      nodeStates[from].distance !== Infinity &&
+      nodeStates[from].distance + edge.weight < nodeStates[to].distance
+    );
+
+    if (violating) {
+      const { edge, from, to } = violating;
+      nodeStates[to].parent = from;
+      nodeStates[to].parentEdge = edge.id;
+      touched.add(to);
+
+      const cycle = traceParentCycle(to);
+      const total = cycle ? cycle.edgeIds.reduce((sum, id) => sum + (edges.find(e => e.id === id)?.weight ?? 0), 0) : 0;
+      const cycleText = cycle ? `：${[...cycle.nodeIds, cycle.nodeIds[0]].map(labelOf).join(' → ')}（总权 ${total}）` : '';
+      snapshot(
+        `第 ${nodes.length} 轮检查仍可松弛 ${labelOf(from)} → ${labelOf(to)}，说明存在负回路${cycleText}。沿该回路可使距离无限减小，最短路不存在。`,
+        null,
+        edge.id,
+        [],
+        cycle ?? undefined
+      );
+      return trace.finish();
+    }
+  }
+
+  // Without negative cycles every finite label is now final
+  const permanentNodes: string[] = [];
+  nodes.forEach(node => {
+    if (nodeStates[node.id].distance !== Infinity) {
+      nodeStates[node.id].status = 'permanent';
+      touched.add(node.id);
+      permanentNodes.push(node.id);
+    }
+  });
+  const endDist = endNodeId ? nodeStates[endNodeId]?.distance : undefined;
+  snapshot(
+    endDist === undefined
+      ? '无负回路，所有可达节点的标号即为最短距离。'
+      : `无负回路，所有可达节点的标号即为最短距离。终点 ${labelOf(endNodeId)} 的最短距离为 ${fmt(endDist)}。`,
+    null,
+    null,
+    permanentNodes
+  );
+
+  return trace.finish();
+};
@@ -0,0 +1,197 @@
+import { Node, Edge, StepTrace, TraceRecorder, AlgorithmNodeState, ResultPath, FrontierEntry } from '../types';
+import { buildAdjacency } from './graph';
+import { runDoubleLabeling } from './dijkstra';
+import { createTraceRecorder } from './trace';
+import { createMinHeap, MinHeap } from './priorityQueue';
+
+type Side = 'forward' | 'backward';
+
+/**
+ * Bidirectional double labeling. The forward search grows labels from the start node
+ * as usual; the backward search grows labels from the end node along reversed arcs,
+ * so a backward label's `parent` is the next node on the way *to* the end node.
+ */
+export const runBidirectionalDijkstra = (
+  nodes: Node[],
+  edges: Edge[],
+  startNodeId: string,
+  endNodeId: string,
+  directed: boolean = false,
+  trace: TraceRecorder = createTraceRecorder()
+): StepTrace => {
+  const labelOf = (id: string) => nodes.find(n => n.id === id)?.label ?? id;
+  const fmt = (d: number) => (d === Infinity ? '∞' : `${d}`);
+
+  const init = (rootId: string): Record<string, AlgorithmNodeState> => {
+    const states: Record<string, AlgorithmNodeState> = {};
+    nodes.forEach(node => {
+      states[node.id] = {
+        distance: node.id === rootId ? 0 : Infinity,
+        parent: node.id === rootId ? rootId : null,
+        parentEdge: null,
+        status: node.id === rootId ? 'temporary' : 'unvisited',
+      };
+    });
+    return states;
+  };
+  const states: Record<Side, Record<string, AlgorithmNodeState>> = {
+    forward: init(startNodeId),
+    backward: init(endNodeId),
+  };
+  const permanent: Record<Side, string[]> = { forward: [], backward: [] };
+
+  // Best complete path length seen so far and the node where its two halves join
+  let best = Infinity;
+  let meetingNodeId: string | null = null;
+
+  // Nodes whose forward or backward label was touched since the last step; the trace
+  // compares and copies only these
+  const touched = new Set<string>();
+
+  const snapshot = (desc: string, active: string | null, edge: string | null, paths?: ResultPath[]) => {
+    trace.push({
+      stepIndex: trace.length(),
+      description: desc,
+      activeNodeId: active,
+      checkingEdgeId: edge,
+      nodeStates: states.forward,
+      backwardStates: states.backward,
+      permanentNodes: permanent.forward,
+      meetingNodeId,
+      ...(paths ? { paths } : {})
+    }, touched);
+    touched.clear();
+  };
+
+  // The backward search follows the arcs of the reversed graph
+  const adjacency = {
+    forward: buildAdjacency(edges, directed),
+    backward: buildAdjacency(edges.map(e => ({ ...e, source: e.target, target: e.source })), directed),
+  };
+
+  // One heap of temporary labels per side, with ties broken by node order and outdated
+  // entries skipped when they reach the top (lazy deletion), as in runDoubleLabeling
+  const order = new Map(nodes.map((n, i) => [n.id, i]));
+  const compareEntries = (a: FrontierEntry, b: FrontierEntry) =>
+    a.priority - b.priority || order.get(a.nodeId)! - order.get(b.nodeId)!;
+  const queues: Record<Side, MinHeap<FrontierEntry>> = {
+    forward: createMinHeap(compareEntries),
+    backward: createMinHeap(compareEntries),
+  };
+  if (states.forward[startNodeId]) queues.forward.push({ nodeId: startNodeId, priority: 0 });
+  if (states.backward[endNodeId]) queues.backward.push({ nodeId: endNodeId, priority: 0 });
+
+  // Temporary node with the smallest label on `side`, left in its heap
+  const minTemporary = (side: Side): string | null => {
+    const queue = queues[side];
+    let entry = queue.peek();
+    while (entry && (states[side][entry.nodeId].status === 'permanent' || states[side][entry.nodeId].distance !== entry.priority)) {
+      queue.pop();
+      entry = queue.peek();
+    }
+    return entry?.nodeId ?? null;
+  };
+
+  snapshot(
+    `初始化：正向标号从起点 ${labelOf(startNodeId)} 出发，反向标号从终点 ${labelOf(endNodeId)} 沿反向弧出发，两侧交替扩展。`,
+    null,
+    null
+  );
+
+  if (startNodeId === endNodeId) {
+    meetingNodeId = startNodeId;
+    snapshot('起点与终点相同，最短距离为 0。', startNodeId, null);
+    return trace.finish();
+  }
+
+  while (true) {
+    const uF = minTemporary('forward');
+    const uB = minTemporary('backward');
+    const topF = uF ? states.forward[uF].distance : Infinity;
+    const topB = uB ? states.backward[uB].distance : Infinity;
+
+    // One exhausted frontier without any meeting means the two sides can never connect
+    if (best === Infinity && (uF === null || uB === null)) {
+      snapshot(`${uF === null ? '正向' : '反向'}标号已无可扩展节点且两侧未相遇，终点 ${labelOf(endNodeId)} 不可达。`, null, null);
+      break;
+    }
+
+    // Stopping criterion: no unexplored path can beat the best one found
+    if (topF + topB >= best) {
+      // Each label names the edge it came through, so the parallel edge taken is reported
+      const forwardPart: string[] = [];
+      const edgeIds: string[] = [];
+      for (let cur: string = meetingNodeId!; ; cur = states.forward[cur].parent!) {
+        forwardPart.unshift(cur);
+        if (cur === startNodeId) break;
+        edgeIds.unshift(states.forward[cur].parentEdge!);
+      }
+      const backwardPart: string[] = [];
+      for (let cur: string = meetingNodeId!; cur !== endNodeId; ) {
+        edgeIds.push(states.backward[cur].parentEdge!);
+        cur = states.backward[cur].parent!;
+        backwardPart.push(cur);
+      }
+      const nodeIds = [...forwardPart, ...backwardPart];
+      const path: ResultPath = { nodeIds, edgeIds, cost: best };
+
+      const unidirectional = runDoubleLabeling(nodes, edges, startNodeId, endNodeId, directed).length;
+      const settled = new Set([...permanent.forward, ...permanent.backward]).size;
+      snapshot(
+        `停止：两侧最小临时标号之和 ${fmt(topF)} + ${fmt(topB)} = ${fmt(topF + topB)} ≥ 已知最短路长 ${best}，剩余路径不可能更短。` +
+        `两侧在 ${labelOf(meetingNodeId!)} 相遇，最短路 ${nodeIds.map(labelOf).join(' → ')}。` +
+        `本算法共 ${trace.length() + 1} 步、永久标号 ${settled} 个节点；单向双标号法在同一图上需 ${unidirectional} 步。`,
+        meetingNodeId,
+        null,
+        [path]
+      );
+      break;
+    }
+
+    // Expand the side whose frontier is closer to its root
+    const side: Side = topF <= topB ? 'forward' : 'backward';
+    const other: Side = side === 'forward' ? 'backward' : 'forward';
+    const u = (side === 'forward' ? uF : uB)!;
+    const sideName = side === 'forward' ? '正向' : '反向';
+
+    queues[side].pop();
+    states[side][u].status = 'permanent';
+    touched.add(u);
+    permanent[side].push(u);
+    snapshot(`${sideName}：选定临时标号最小的节点 ${labelOf(u)} (d=${fmt(states[side][u].distance)})，标记为 P。`, u, null);
+
+    for (const { edge, to: next } of adjacency[side].get(u) ?? []) {
+      const target = states[side][next];
+      const newDist = states[side][u].distance + edge.weight;
+
+      // A node labelled by both searches closes a complete start -> end path
+      const otherDist = states[other][next].distance;
+      const closesPath = otherDist !== Infinity && newDist + otherDist < best;
+      if (closesPath) {
+        best = newDist + otherDist;
+        meetingNodeId = next;
+      }
+      if (target.status === 'permanent' && !closesPath) continue;
+
+      const currentDist = target.distance;
+      let desc: string;
+      if (target.status === 'permanent') {
+        desc = `${sideName}：${labelOf(next)} 已是永久标号。`;
+      } else if (newDist < currentDist) {
+        target.distance = newDist;
+        target.parent = u;
+        target.parentEdge = edge.id;
+        target.status = 'temporary';
+        touched.add(next);
+        queues[side].push({ nodeId: next, priority: newDist });
+        desc = `${sideName}：更新 ${labelOf(next)} 的标号：${fmt(currentDist)} → ${newDist} (来自 ${labelOf(u)})。`;
+      } else {
+        desc = `${sideName}：检查 ${labelOf(next)}：现有距离 ${fmt(currentDist)} <= 新路径 ${newDist}，不更新。`;
+      }
+      if (closesPath) desc += `两侧标号在 ${labelOf(next)} 相接，得到长度 ${best} 的路径。`;
+      snapshot(desc, u, edge.id);
+    }
+  }
+
+  return trace.finish();
+};
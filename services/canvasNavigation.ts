@@ -0,0 +1,60 @@
+import { Node, Edge } from '../types';
+
+export type NavDirection = 'left' | 'right' | 'up' | 'down';
+
+export const ARROW_DIRECTIONS: Record<string, NavDirection> = {
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+};
+
+const UNIT: Record<NavDirection, { x: number, y: number }> = {
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+  up: { x: 0, y: -1 },
+  down: { x: 0, y: 1 },
+};
+
+/**
+ * The node an arrow key moves to: the nearest one within 60° either side of the direction,
+ * with sideways distance counting double so nodes roughly in line win over closer ones
+ * off to the side. Null when nothing lies that way.
+ */
+export const findNodeInDirection = (nodes: Node[], from: Node, direction: NavDirection) => {
+  const unit = UNIT[direction];
+  let best: Node | null = null;
+  let bestScore = Infinity;
+  for (const n of nodes) {
+    if (n.id === from.id) continue;
+    const dx = n.x - from.x;
+    const dy = n.y - from.y;
+    const along = dx * unit.x + dy * unit.y;
+    const across = Math.abs(dx * unit.y - dy * unit.x);
+    if (along <= 0 || across > along * Math.tan(Math.PI / 3)) continue;
+    const score = along + 2 * across;
+    if (score < bestScore) {
+      best = n;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+// Where keyboard navigation starts when nothing is focused: the node nearest the point
+export const findNearestNode = (nodes: Node[], x: number, y: number) =>
+  nodes.reduce<Node | null>((best, n) =>
+    (!best || Math.hypot(n.x - x, n.y - y) < Math.hypot(best.x - x, best.y - y) ? n : best), null);
+
+// Edges at a node, in clockwise order of the direction they leave it
+export const getIncidentEdges = (nodes: Node[], edges: Edge[], nodeId: string) => {
+  const at = nodes.find(n => n.id === nodeId);
+  if (!at) return [];
+  const angle = (edge: Edge) => {
+    const other = nodes.find(n => n.id === (edge.source === nodeId ? edge.target : edge.source));
+    return other ? Math.atan2(other.y - at.y, other.x - at.x) : 0;
+  };
+  return edges
+    .filter(e => e.source === nodeId || e.target === nodeId)
+    .sort((a, b) => angle(a) - angle(b));
+};
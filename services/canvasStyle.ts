@@ -0,0 +1,137 @@
+import { Node, Edge, AlgorithmNodeState, CanvasScene } from '../types';
+import { COLORS } from '../constants';
+import { isEdgeSelected, isNodeSelected } from './selection';
+
+export interface EdgeStyle {
+  marker: string; // id of the arrowhead marker
+  stroke: string;
+  strokeWidth: number;
+  opacity: number;
+  dash: string;
+}
+
+// Arrowhead markers every scene needs, plus one per highlighted path
+export const getArrowMarkers = (scene: CanvasScene) => [
+  { id: 'arrowhead', fill: '#94a3b8' },
+  { id: 'arrowhead-path', fill: COLORS.primary },
+  { id: 'arrowhead-checking', fill: COLORS.warning },
+  { id: 'arrowhead-selected', fill: '#ef4444' },
+  { id: 'arrowhead-cycle', fill: COLORS.danger },
+  { id: 'arrowhead-backward', fill: COLORS.backward },
+  ...scene.pathHighlights.map((h, i) => ({ id: `arrowhead-hl-${i}`, fill: h.color })),
+];
+
+export const getNodeColor = ({ stepState, startNodeId, endNodeId }: CanvasScene, nodeId: string) => {
+  if (stepState) {
+    const state = stepState.nodeStates[nodeId];
+    const backState = stepState.backwardStates?.[nodeId];
+    if (stepState.negativeCycle?.nodeIds.includes(nodeId)) return COLORS.danger;
+    if (stepState.meetingNodeId === nodeId) return COLORS.meeting;
+    if (stepState.activeNodeId === nodeId) return COLORS.warning;
+    if (state?.status === 'permanent') return COLORS.permanent;
+    if (backState?.status === 'permanent') return COLORS.backward;
+    if (state?.status === 'temporary' && state.distance !== Infinity) return COLORS.temporary;
+    if (backState?.status === 'temporary' && backState.distance !== Infinity) return COLORS.backwardTemporary;
+    return COLORS.unvisited;
+  }
+  if (nodeId === startNodeId) return COLORS.start;
+  if (nodeId === endNodeId) return COLORS.end;
+  return COLORS.primary;
+};
+
+export const getNodeStroke = ({ selection, startNodeId, endNodeId }: CanvasScene, nodeId: string) => {
+  const isSelected = isNodeSelected(selection, nodeId);
+  if (isSelected) return '#000'; // Black stroke for selection
+
+  if (nodeId === startNodeId) return COLORS.success;
+  if (nodeId === endNodeId) return COLORS.danger;
+  return '#fff';
+};
+
+export const getNodeStrokeWidth = ({ selection, stepState }: CanvasScene, nodeId: string) => {
+  const isSelected = isNodeSelected(selection, nodeId);
+  const isActive = stepState?.activeNodeId === nodeId;
+  if (isSelected) return 3;
+  if (isActive) return 4;
+  return 3;
+};
+
+export const getNodeLabelText = ({ stepState, nodes }: CanvasScene, node: Node) => {
+  if (stepState) {
+    const state = stepState.nodeStates[node.id];
+    const d = state?.distance === Infinity ? '∞' : state?.distance;
+    const pId = state?.parent;
+    const pLabel = pId ? nodes.find(n => n.id === pId)?.label : '-';
+    if (state?.heuristic !== undefined) {
+      const f = typeof state.distance === 'number' && state.distance !== Infinity
+        ? Math.round((state.distance + state.heuristic) * 100) / 100
+        : '∞';
+      return `[${d}, ${pLabel}] h=${state.heuristic} f=${f}`;
+    }
+    return `[${d}, ${pLabel}]`;
+  }
+  return node.label;
+};
+
+// Second badge line for the backward search of a bidirectional run
+export const getBackwardLabelText = ({ stepState, nodes }: CanvasScene, node: Node) => {
+  const state = stepState?.backwardStates?.[node.id];
+  if (!state) return null;
+  const d = state.distance === Infinity ? '∞' : state.distance;
+  const sLabel = state.parent ? nodes.find(n => n.id === state.parent)?.label : '-';
+  return `[${d}, ${sLabel}]←`;
+};
+
+export const getEdgeStyle = ({ stepState, selection, directed, pathHighlights }: CanvasScene, edge: Edge): EdgeStyle => {
+  const isChecking = stepState?.checkingEdgeId === edge.id;
+  const isSelected = isEdgeSelected(selection, edge.id);
+  const isCycle = !!stepState?.negativeCycle?.edgeIds.includes(edge.id);
+  let isPath = false;
+  let isBackwardPath = false;
+
+  if (stepState) {
+    // With tied predecessors tracked, this marks the whole shortest-path DAG. Labels that
+    // record their edge pick out the one of several parallel edges the search went through.
+    const hasParent = (state: AlgorithmNodeState | undefined, parentId: string) => {
+      if (state?.status !== 'permanent') return false;
+      if (state.parentEdges) return state.parentEdges.includes(edge.id);
+      if (state.parentEdge !== undefined) return state.parentEdge === edge.id;
+      return state.parents ? state.parents.includes(parentId) : state.parent === parentId;
+    };
+    if (hasParent(stepState.nodeStates[edge.target], edge.source)) isPath = true;
+    if (!directed && hasParent(stepState.nodeStates[edge.source], edge.target)) isPath = true;
+    // A backward label's parent is its successor towards the end node
+    const backStates = stepState.backwardStates;
+    if (backStates) {
+      if (hasParent(backStates[edge.source], edge.target)) isBackwardPath = true;
+      if (!directed && hasParent(backStates[edge.target], edge.source)) isBackwardPath = true;
+    }
+  }
+
+  const highlightIndex = pathHighlights.findIndex(h => h.edgeIds.includes(edge.id));
+  if (highlightIndex >= 0 && !isSelected) {
+    return {
+      marker: `arrowhead-hl-${highlightIndex}`,
+      stroke: pathHighlights[highlightIndex].color,
+      strokeWidth: 5,
+      opacity: 1,
+      dash: ""
+    };
+  }
+
+  if (isCycle && !isSelected) {
+    return { marker: 'arrowhead-cycle', stroke: COLORS.danger, strokeWidth: 4, opacity: 1, dash: "8,4" };
+  }
+
+  if (isBackwardPath && !isPath && !isChecking && !isSelected) {
+    return { marker: 'arrowhead-backward', stroke: COLORS.backward, strokeWidth: 4, opacity: 1, dash: "" };
+  }
+
+  return {
+    marker: isSelected ? 'arrowhead-selected' : (isChecking ? 'arrowhead-checking' : (isPath ? 'arrowhead-path' : 'arrowhead')),
+    stroke: isSelected ? '#ef4444' : (isChecking ? COLORS.warning : (isPath ? COLORS.primary : '#94a3b8')),
+    strokeWidth: isSelected ? 4 : (isPath ? 4 : (isChecking ? 3 : 2)),
+    opacity: (stepState && !isPath && !isChecking) ? 0.3 : 1,
+    dash: isSelected ? "5,5" : ""
+  };
+};
@@ -1,12 +1,54 @@
-import { Node, Edge, AlgorithmStep, AlgorithmNodeState } from '../types';
+import { Node, Edge, StepTrace, TraceRecorder, AlgorithmNodeState, ResultPath, FrontierEntry } from '../types';
+import { buildAdjacency } from './graph';
+import { enumerateParentPaths } from './paths';
+import { createMinHeap } from './priorityQueue';
+import { createTraceRecorder, getFinalStep } from './trace';
+
+/**
+ * Plain shortest distances from `sourceId` without recording steps. With `reverse`
+ * the arcs are followed backwards, giving the distance from every node *to* `sourceId`.
+ */
+export const computeShortestDistances = (
+  nodes: Node[],
+  edges: Edge[],
+  sourceId: string,
+  directed: boolean = false,
+  reverse: boolean = false
+): Record<string, number> => {
+  const dist: Record<string, number> = {};
+  nodes.forEach(n => { dist[n.id] = n.id === sourceId ? 0 : Infinity; });
+  // Swapping the ends of every edge turns outgoing arcs into the incoming ones
+  const adjacency = buildAdjacency(reverse ? edges.map(e => ({ ...e, source: e.target, target: e.source })) : edges, directed);
+  const done = new Set<string>();
+  const queue = createMinHeap<FrontierEntry>((a, b) => a.priority - b.priority);
+  if (sourceId in dist) queue.push({ nodeId: sourceId, priority: 0 });
+
+  for (let entry = queue.pop(); entry; entry = queue.pop()) {
+    const u = entry.nodeId;
+    // Lazy deletion: skip entries superseded by a later decrease
+    if (done.has(u) || entry.priority > dist[u]) continue;
+    done.add(u);
+    for (const { edge, to } of adjacency.get(u) ?? []) {
+      if (!done.has(to) && to in dist && dist[u] + edge.weight < dist[to]) {
+        dist[to] = dist[u] + edge.weight;
+        queue.push({ nodeId: to, priority: dist[to] });
+      }
+    }
+  }
+  return dist;
+};
 
 export const runDoubleLabeling = (
   nodes: Node[],
   edges: Edge[],
   startNodeId: string,
-  endNodeId: string
-): AlgorithmStep[] => {
-  const steps: AlgorithmStep[] = [];
+  endNodeId: string,
+  directed: boolean = false,
+  trackTies: boolean = false,
+  trace: TraceRecorder = createTraceRecorder()
+): StepTrace => {
+  const labels = new Map(nodes.map(n => [n.id, n.label]));
+  const labelOf = (id: string) => labels.get(id);
   
   // Initialize states
   const nodeStates: Record<string, AlgorithmNodeState> = {};
@@ -14,77 +56,115 @@ export const runDoubleLabeling = (
     nodeStates[node.id] = {
       distance: node.id === startNodeId ? 0 : Infinity,
       parent: node.id === startNodeId ? startNodeId : null,
+      parentEdge: null,
       status: node.id === startNodeId ? 'temporary' : 'unvisited',
+      ...(trackTies ? { parents: node.id === startNodeId ? [startNodeId] : [], parentEdges: [] } : {}),
     };
   });
 
-  // Helper to clone state for snapshots
+  // Temporary labels live in a binary heap keyed on d; ties fall back to node order so
+  // the selection matches a left-to-right scan of the node list. Decreased labels are
+  // pushed again and stale entries are discarded when popped (lazy deletion).
+  const order = new Map(nodes.map((n, i) => [n.id, i]));
+  const compareEntries = (a: FrontierEntry, b: FrontierEntry) =>
+    a.priority - b.priority || order.get(a.nodeId)! - order.get(b.nodeId)!;
+  const queue = createMinHeap<FrontierEntry>(compareEntries);
+  const isCurrent = (entry: FrontierEntry) =>
+    nodeStates[entry.nodeId].status !== 'permanent' && nodeStates[entry.nodeId].distance === entry.priority;
+  if (nodeStates[startNodeId]) queue.push({ nodeId: startNodeId, priority: 0 });
+
+  // Labels touched since the last step; the trace compares and copies only these
+  const touched = new Set<string>();
+
+  // Records a step; the trace copies only the labels that changed
   const snapshot = (
     desc: string, 
     active: string | null, 
     edge: string | null,
-    perms: string[]
+    perms: string[],
+    severity?: 'warning',
+    paths?: ResultPath[]
   ) => {
-    steps.push({
-      stepIndex: steps.length,
+    trace.push({
+      stepIndex: trace.length(),
       description: desc,
       activeNodeId: active,
       checkingEdgeId: edge,
-      nodeStates: JSON.parse(JSON.stringify(nodeStates)),
-      permanentNodes: [...perms]
-    });
+      nodeStates: nodeStates,
+      permanentNodes: perms,
+      frontier: queue.toArray().filter(isCurrent).sort(compareEntries),
+      ...(severity ? { severity } : {}),
+      ...(paths ? { paths } : {})
+    }, touched);
+    touched.clear();
   };
 
+  const adjacency = buildAdjacency(edges, directed);
+
   const permanentNodes: string[] = [];
   let unvisitedCount = nodes.length;
 
   // Step 0: Initial State
   snapshot("初始化：设定起点标号 [0, 起点]，其他节点为 [∞, -]。", null, null, permanentNodes);
 
+  const negativeEdges = edges.filter(e => e.weight < 0);
+  if (negativeEdges.length > 0) {
+    snapshot(
+      `警告：图中有 ${negativeEdges.length} 条负权边。双标号法要求所有权值非负——节点一旦获得永久标号便不再修改，负权边可能使结果错误，请改用 Bellman-Ford 算法对照。`,
+      null,
+      null,
+      permanentNodes,
+      'warning'
+    );
+  }
+
   while (unvisitedCount > 0) {
-    // 1. Find the node with the smallest distance among non-permanent nodes (temporary nodes)
-    
-    let minDistance = Infinity;
-    let u: string | null = null;
-
-    for (const node of nodes) {
-      if (nodeStates[node.id].status !== 'permanent') {
-        if (nodeStates[node.id].distance < minDistance) {
-          minDistance = nodeStates[node.id].distance;
-          u = node.id;
-        }
-      }
-    }
+    // 1. Take the temporary node with the smallest distance from the priority queue
+    let entry = queue.pop();
+    while (entry && !isCurrent(entry)) entry = queue.pop();
 
     // If no reachable node is left (all remaining are infinity), break
-    if (u === null || minDistance === Infinity) {
+    if (!entry) {
         snapshot("没有更多可达的临时节点。算法结束。", null, null, permanentNodes);
         break;
     }
+    const u = entry.nodeId;
 
     // 2. Mark u as Permanent (P-label)
     nodeStates[u].status = 'permanent';
+    touched.add(u);
     permanentNodes.push(u);
     unvisitedCount--;
     
     snapshot(
-      `选定临时标号最小的节点 ${nodes.find(n => n.id === u)?.label} (d=${nodeStates[u].distance})，将其标记为 P (永久标号)。`, 
+      `选定临时标号最小的节点 ${labelOf(u)} (d=${nodeStates[u].distance})，将其标记为 P (永久标号)。`, 
       u, 
       null, 
       permanentNodes
     );
 
     if (u === endNodeId) {
-      snapshot(`已到达终点 ${nodes.find(n => n.id === u)?.label}。最短路径找到。`, u, null, permanentNodes);
+      if (trackTies) {
+        const paths = enumerateParentPaths(nodeStates, startNodeId, u).map(path => ({ ...path, cost: nodeStates[u].distance }));
+        snapshot(
+          `已到达终点 ${labelOf(u)}。共有 ${paths.length} 条长度为 ${nodeStates[u].distance} 的最短路径。`,
+          u,
+          null,
+          permanentNodes,
+          undefined,
+          paths
+        );
+      } else {
+        snapshot(`已到达终点 ${labelOf(u)}。最短路径找到。`, u, null, permanentNodes);
+      }
       break;
     }
 
     // 3. Update neighbors
-    // Find all outgoing edges from u
-    const neighbors = edges.filter(e => e.source === u || e.target === u);
+    // Find all outgoing arcs from u (both directions of an edge when undirected)
+    const neighbors = adjacency.get(u) ?? [];
     
-    for (const edge of neighbors) {
-      const targetId = edge.source === u ? edge.target : edge.source;
+    for (const { edge, to: targetId } of neighbors) {
       
       if (nodeStates[targetId].status !== 'permanent') {
         const newDist = nodeStates[u].distance + edge.weight;
@@ -93,25 +173,74 @@ export const runDoubleLabeling = (
         if (newDist < currentDist) {
           nodeStates[targetId].distance = newDist;
           nodeStates[targetId].parent = u;
+          nodeStates[targetId].parentEdge = edge.id;
           nodeStates[targetId].status = 'temporary'; // It is now a T-label with finite value
+          if (trackTies) {
+            nodeStates[targetId].parents = [u];
+            nodeStates[targetId].parentEdges = [edge.id];
+          }
+          touched.add(targetId);
+          queue.push({ nodeId: targetId, priority: newDist });
           
           snapshot(
-            `更新节点 ${nodes.find(n => n.id === targetId)?.label} 的标号：由 ${currentDist === Infinity ? '∞' : currentDist} 更新为 ${newDist} (来自 ${nodes.find(n => n.id === u)?.label})。`,
+            `更新节点 ${labelOf(targetId)} 的标号：由 ${currentDist === Infinity ? '∞' : currentDist} 更新为 ${newDist} (来自 ${labelOf(u)})。`,
+            u,
+            edge.id,
+            permanentNodes
+          );
+        } else if (trackTies && newDist === currentDist) {
+          // An equally short route: keep u (with the edge used) as an additional optimal predecessor
+          const parallel = nodeStates[targetId].parents?.includes(u);
+          nodeStates[targetId].parents = [...(nodeStates[targetId].parents ?? []), u];
+          nodeStates[targetId].parentEdges = [...(nodeStates[targetId].parentEdges ?? []), edge.id];
+          touched.add(targetId);
+          snapshot(
+            parallel
+              ? `发现等长路径：${labelOf(u)} 与 ${labelOf(targetId)} 之间的另一条平行边同样给出距离 ${newDist}，一并记入前驱集合。`
+              : `发现等长路径：经 ${labelOf(u)} 到达 ${labelOf(targetId)} 的距离同为 ${newDist}，将 ${labelOf(u)} 加入其前驱集合。`,
             u,
             edge.id,
             permanentNodes
           );
         } else {
              snapshot(
-            `检查节点 ${nodes.find(n => n.id === targetId)?.label}：现有距离 ${currentDist} <= 新路径 ${newDist}，不更新。`,
+            `检查节点 ${labelOf(targetId)}：现有距离 ${currentDist} <= 新路径 ${newDist}，不更新。`,
             u,
             edge.id,
             permanentNodes
           );
         }
+      } else if (nodeStates[u].distance + edge.weight < nodeStates[targetId].distance) {
+        // Only possible with a negative arc: a shorter route to an already permanent node
+        // is found, but the method never revisits P-labels, so the error goes unrepaired.
+        snapshot(
+          `注意：经 ${labelOf(u)} 到达 ${labelOf(targetId)} 的距离 ${nodeStates[u].distance + edge.weight} 小于其永久标号 ${nodeStates[targetId].distance}，但永久标号不会再修改——这正是负权边导致双标号法失效的原因。`,
+          u,
+          edge.id,
+          permanentNodes,
+          'warning'
+        );
       }
     }
   }
 
-  return steps;
-};
\ No newline at end of file
+  return trace.finish();
+};
+/**
+ * The single shortest start -> end path found by the double-labeling method, or null
+ * when the end node cannot be reached.
+ */
+export const findShortestPath = (
+  nodes: Node[],
+  edges: Edge[],
+  startNodeId: string,
+  endNodeId: string,
+  directed: boolean = false
+): ResultPath | null => {
+  const finalStates = getFinalStep(runDoubleLabeling(nodes, edges, startNodeId, endNodeId, directed))?.nodeStates;
+  if (!finalStates || finalStates[endNodeId]?.status !== 'permanent') return null;
+
+  const [path] = enumerateParentPaths(finalStates, startNodeId, endNodeId, 1);
+  if (!path) return null;
+  return { ...path, cost: finalStates[endNodeId].distance };
+};
@@ -0,0 +1,16 @@
+// Saves `content` as a file through a temporary object URL
+export const downloadFile = (filename: string, content: string | Blob, mimeType = 'text/plain') => {
+  const blob = typeof content === 'string' ? new Blob([content], { type: `${mimeType};charset=utf-8` }) : content;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// Characters that are unsafe in file names on common systems are replaced
+export const toFileName = (name: string, extension: string) =>
+  `${name.trim().replace(/[\\/:*?"<>|]+/g, '_') || 'graph'}.${extension}`;
@@ -0,0 +1,157 @@
+import { Node, Edge, StepTrace, TraceRecorder, AlgorithmNodeState, DistanceMatrix } from '../types';
+import { getAllArcs } from './graph';
+import { createTraceRecorder } from './trace';
+
+/**
+ * Node sequence from `fromId` to `toId` read off a successor matrix, or an empty
+ * array when no path exists. The walk is bounded so that a matrix produced on a
+ * graph with a negative cycle cannot loop forever.
+ */
+export const getMatrixPath = (matrix: DistanceMatrix, fromId: string, toId: string): string[] => {
+  const index = (id: string) => matrix.nodeIds.indexOf(id);
+  const j = index(toId);
+  if (index(fromId) < 0 || j < 0) return [];
+  if (fromId === toId) return [fromId];
+
+  const path = [fromId];
+  let cur = fromId;
+  while (cur !== toId) {
+    const hop = matrix.next[index(cur)][j];
+    if (hop === null || path.length > matrix.nodeIds.length) return [];
+    path.push(hop);
+    cur = hop;
+  }
+  return path;
+};
+
+export const runFloydWarshall = (
+  nodes: Node[],
+  edges: Edge[],
+  startNodeId: string,
+  endNodeId: string,
+  directed: boolean = false,
+  trace: TraceRecorder = createTraceRecorder()
+): StepTrace => {
+  const labelOf = (id: string) => nodes.find(n => n.id === id)?.label ?? id;
+  const fmt = (d: number) => (d === Infinity ? '∞' : `${d}`);
+
+  const nodeIds = nodes.map(n => n.id);
+  const n = nodeIds.length;
+  const indexOf: Record<string, number> = {};
+  nodeIds.forEach((id, i) => { indexOf[id] = i; });
+
+  // D(0) is the weight matrix; the path matrix starts with the direct successor
+  const dist: number[][] = nodeIds.map((_, i) => nodeIds.map((_, j) => (i === j ? 0 : Infinity)));
+  const next: (string | null)[][] = nodeIds.map((_, i) => nodeIds.map((id, j) => (i === j ? id : null)));
+  // Every hop of a matrix path uses the cheapest of its parallel edges
+  const arcEdge: (string | null)[][] = nodeIds.map(() => nodeIds.map(() => null));
+  for (const { edge, from, to } of getAllArcs(edges, directed)) {
+    const i = indexOf[from];
+    const j = indexOf[to];
+    // Parallel edges keep the cheapest; a negative self-loop shows on the diagonal at once
+    if (edge.weight < dist[i][j]) {
+      dist[i][j] = edge.weight;
+      next[i][j] = to;
+      arcEdge[i][j] = edge.id;
+    }
+  }
+
+  const s = indexOf[startNodeId];
+  const t = indexOf[endNodeId];
+
+  // Node before `j` on the start node's path, found by following the successor matrix;
+  // bounded like getMatrixPath
+  const predecessor = (j: number): number | null => {
+    let cur = s;
+    for (let hops = 0; hops < n; hops++) {
+      const hop = next[cur][j];
+      if (hop === null) return null;
+      if (indexOf[hop] === j) return cur;
+      cur = indexOf[hop];
+    }
+    return null;
+  };
+
+  // Labels on the canvas show the start node's row so the graph view stays meaningful
+  const nodeStates: Record<string, AlgorithmNodeState> = {};
+  const updateLabel = (j: number, final: boolean) => {
+    const d = s === undefined ? Infinity : dist[s][j];
+    const p = s === undefined || d === Infinity ? null : (j === s ? s : predecessor(j));
+    nodeStates[nodeIds[j]] = {
+      distance: d,
+      parent: p === null ? null : nodeIds[p],
+      parentEdge: p === null || p === j ? null : arcEdge[p][j],
+      status: d === Infinity ? 'unvisited' : (final ? 'permanent' : 'temporary'),
+    };
+  };
+
+  // Columns of the start row whose distance changed since the previous step; the paths
+  // are read once the whole iteration is done
+  const touched = new Set<number>();
+  const snapshot = (desc: string, pivot: string | null, changed: [number, number][], final = false) => {
+    for (const j of touched) updateLabel(j, final);
+    trace.push({
+      stepIndex: trace.length(),
+      description: desc,
+      activeNodeId: pivot,
+      checkingEdgeId: null,
+      nodeStates,
+      permanentNodes: nodeIds.filter(id => nodeStates[id].status === 'permanent'),
+      matrix: { nodeIds, dist, next, changed, pivot },
+    }, [...touched].map(j => nodeIds[j]));
+    touched.clear();
+  };
+
+  nodeIds.forEach((_, j) => touched.add(j));
+  snapshot('初始化：D(0) 为权矩阵（无直接连线记为 ∞），路径矩阵记录每条弧的直接后继。', null, []);
+
+  for (let k = 0; k < n; k++) {
+    const changed: [number, number][] = [];
+    for (let i = 0; i < n; i++) {
+      if (dist[i][k] === Infinity) continue;
+      for (let j = 0; j < n; j++) {
+        const viaK = dist[i][k] + dist[k][j];
+        if (viaK < dist[i][j]) {
+          dist[i][j] = viaK;
+          next[i][j] = next[i][k];
+          changed.push([i, j]);
+          if (i === s) touched.add(j);
+        }
+      }
+    }
+
+    const pivotLabel = labelOf(nodeIds[k]);
+    const detail = changed.slice(0, 4)
+      .map(([i, j]) => `d(${labelOf(nodeIds[i])},${labelOf(nodeIds[j])})=${fmt(dist[i][j])}`)
+      .join('，');
+    snapshot(
+      changed.length === 0
+        ? `D(${k + 1})：以 ${pivotLabel} 为中间点，d(i,j) 与 d(i,${pivotLabel})+d(${pivotLabel},j) 比较后没有元素变小。`
+        : `D(${k + 1})：以 ${pivotLabel} 为中间点，更新 ${changed.length} 个元素：${detail}${changed.length > 4 ? ' …' : ''}。`,
+      nodeIds[k],
+      changed
+    );
+  }
+
+  const negative = nodeIds.filter((_, i) => dist[i][i] < 0);
+  if (negative.length > 0) {
+    snapshot(
+      `D(${n}) 的对角线出现负值（${negative.map(labelOf).join('、')}），说明图中存在负回路，相关节点之间的最短路不存在。`,
+      null,
+      []
+    );
+    return trace.finish();
+  }
+
+  nodeIds.forEach((_, j) => touched.add(j));
+  snapshot(
+    s !== undefined && t !== undefined
+      ? `算法结束：D(${n}) 即为任意两点间的最短距离，${labelOf(startNodeId)} → ${labelOf(endNodeId)} 为 ${fmt(dist[s][t])}。点击矩阵元素可在图上查看对应路径。`
+      : `算法结束：D(${n}) 即为任意两点间的最短距离。点击矩阵元素可在图上查看对应路径。`,
+    null,
+    [],
+    true
+  );
+
+  return trace.finish();
+};
@@ -0,0 +1,110 @@
+import { Edge } from '../types';
+
+export const NODE_RADIUS = 20;
+
+// Perpendicular offset (in px) of the curve apex for arcs that share a node pair.
+const CURVE_OFFSET = 28;
+
+// Self-loops: angle either side of the loop's axis where it meets the node, angle and
+// distance of its control points; the tip ends up about 60px from the node centre.
+const LOOP_SPREAD = Math.PI / 8;
+const LOOP_CONTROL_SPREAD = (Math.PI * 2) / 9;
+const LOOP_REACH = 100;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+export interface EdgeGeometry {
+  path: string;
+  labelX: number;
+  labelY: number;
+}
+
+/**
+ * How far an edge should bow away from the straight line between its endpoints, in
+ * lanes of CURVE_OFFSET. Edges joining the same two nodes (parallel edges, and in a
+ * directed graph A->B together with B->A) fan out symmetrically so each keeps its own
+ * curve and weight label; a lone edge stays straight. For a self-loop this is instead
+ * the loop's index among the loops at its node.
+ */
+export const getEdgeCurvature = (edge: Edge, edges: Edge[]): number => {
+  if (edge.source === edge.target) {
+    return edges.filter(e => e.source === edge.source && e.target === edge.source).findIndex(e => e.id === edge.id);
+  }
+  const group = edges.filter(e =>
+    (e.source === edge.source && e.target === edge.target) || (e.source === edge.target && e.target === edge.source));
+  if (group.length <= 1) return 0;
+  const i = group.findIndex(e => e.id === edge.id);
+  // Lanes 0, +1, -1, +2, ... for an odd count and +1, -1, +2, -2, ... for an even one,
+  // measured to the left of the lower id -> higher id direction
+  const lane = group.length % 2 === 1
+    ? Math.ceil(i / 2) * (i % 2 === 1 ? 1 : -1)
+    : (Math.floor(i / 2) + 1) * (i % 2 === 0 ? 1 : -1);
+  return edge.source < edge.target ? lane : -lane;
+};
+
+/**
+ * SVG path and label anchor for an edge. When `trimEnd` is set the path stops at the
+ * target node's border so that an arrowhead marker is not hidden under the circle.
+ */
+export const getEdgeGeometry = (
+  s: Point,
+  t: Point,
+  curvature: number,
+  trimEnd: boolean
+): EdgeGeometry => {
+  const dx = t.x - s.x;
+  const dy = t.y - s.y;
+  const len = Math.hypot(dx, dy) || 1;
+  // Left-hand normal of the source -> target direction
+  const nx = dy / len;
+  const ny = -dx / len;
+
+  const midX = (s.x + t.x) / 2;
+  const midY = (s.y + t.y) / 2;
+  // A quadratic curve passes through the midpoint of its control polygon's apex,
+  // so the control point sits twice as far out as the visible bow.
+  const cx = midX + nx * CURVE_OFFSET * 2 * curvature;
+  const cy = midY + ny * CURVE_OFFSET * 2 * curvature;
+
+  const trim = (from: Point, to: Point, by: number): Point => {
+    const d = Math.hypot(to.x - from.x, to.y - from.y) || 1;
+    return { x: to.x - ((to.x - from.x) / d) * by, y: to.y - ((to.y - from.y) / d) * by };
+  };
+
+  const end = trimEnd ? trim({ x: cx, y: cy }, t, NODE_RADIUS + 2) : t;
+  const labelX = midX + nx * CURVE_OFFSET * curvature;
+  const labelY = midY + ny * CURVE_OFFSET * curvature;
+
+  if (curvature === 0) {
+    return { path: `M ${s.x} ${s.y} L ${end.x} ${end.y}`, labelX, labelY };
+  }
+  return { path: `M ${s.x} ${s.y} Q ${cx} ${cy} ${end.x} ${end.y}`, labelX, labelY };
+};
+
+/**
+ * A self-loop drawn as a teardrop leaving and re-entering the node. Successive loops at
+ * the same node (`index` 0, 1, ...) turn clockwise from straight up.
+ */
+export const getLoopGeometry = (p: Point, index: number, trimEnd: boolean): EdgeGeometry => {
+  const angle = -Math.PI / 2 + index * (Math.PI / 3);
+  const at = (a: number, r: number): Point => ({ x: p.x + Math.cos(a) * r, y: p.y + Math.sin(a) * r });
+  const start = at(angle - LOOP_SPREAD, NODE_RADIUS);
+  const end = at(angle + LOOP_SPREAD, NODE_RADIUS + (trimEnd ? 2 : 0));
+  const c1 = at(angle - LOOP_CONTROL_SPREAD, LOOP_REACH);
+  const c2 = at(angle + LOOP_CONTROL_SPREAD, LOOP_REACH);
+  // Point of the cubic at t = 1/2, i.e. the tip of the loop
+  return {
+    path: `M ${start.x} ${start.y} C ${c1.x} ${c1.y} ${c2.x} ${c2.y} ${end.x} ${end.y}`,
+    labelX: (start.x + 3 * c1.x + 3 * c2.x + end.x) / 8,
+    labelY: (start.y + 3 * c1.y + 3 * c2.y + end.y) / 8,
+  };
+};
+
+// Path and label anchor for `edge` as drawn among `edges`, whether a loop or not
+export const getEdgeShape = (edge: Edge, edges: Edge[], s: Point, t: Point, trimEnd: boolean): EdgeGeometry =>
+  edge.source === edge.target
+    ? getLoopGeometry(s, getEdgeCurvature(edge, edges), trimEnd)
+    : getEdgeGeometry(s, t, getEdgeCurvature(edge, edges), trimEnd);
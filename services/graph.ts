@@ -0,0 +1,118 @@
+import { Edge, EdgeWeightDefaults, Node } from '../types';
+
+// An edge seen from one of its endpoints: `from` -> `to` is the direction of travel.
+export interface Arc {
+  edge: Edge;
+  from: string;
+  to: string;
+}
+
+/**
+ * Arcs leaving `nodeId`. In a directed graph only edges whose source is `nodeId`
+ * can be traversed; in an undirected graph every incident edge can.
+ */
+export const getOutgoingArcs = (edges: Edge[], nodeId: string, directed: boolean): Arc[] => {
+  const arcs: Arc[] = [];
+  for (const edge of edges) {
+    if (edge.source === nodeId) {
+      arcs.push({ edge, from: nodeId, to: edge.target });
+    } else if (!directed && edge.target === nodeId) {
+      arcs.push({ edge, from: nodeId, to: edge.source });
+    }
+  }
+  return arcs;
+};
+
+/**
+ * Outgoing arcs of every node, built once so that runners do not rescan the edge list
+ * for each node they settle.
+ */
+export const buildAdjacency = (edges: Edge[], directed: boolean): Map<string, Arc[]> => {
+  const adjacency = new Map<string, Arc[]>();
+  const add = (arc: Arc) => {
+    const list = adjacency.get(arc.from);
+    if (list) list.push(arc);
+    else adjacency.set(arc.from, [arc]);
+  };
+  for (const edge of edges) {
+    add({ edge, from: edge.source, to: edge.target });
+    if (!directed) add({ edge, from: edge.target, to: edge.source });
+  }
+  return adjacency;
+};
+
+/**
+ * Arcs entering `nodeId`, i.e. the arcs a backward search from `nodeId` follows in reverse.
+ */
+export const getIncomingArcs = (edges: Edge[], nodeId: string, directed: boolean): Arc[] => {
+  const arcs: Arc[] = [];
+  for (const edge of edges) {
+    if (edge.target === nodeId) {
+      arcs.push({ edge, from: edge.source, to: nodeId });
+    } else if (!directed && edge.source === nodeId) {
+      arcs.push({ edge, from: edge.target, to: nodeId });
+    }
+  }
+  return arcs;
+};
+
+/**
+ * Every traversable arc of the graph. Undirected edges yield one arc per direction.
+ */
+export const getAllArcs = (edges: Edge[], directed: boolean): Arc[] => {
+  const arcs: Arc[] = [];
+  for (const edge of edges) {
+    arcs.push({ edge, from: edge.source, to: edge.target });
+    if (!directed) arcs.push({ edge, from: edge.target, to: edge.source });
+  }
+  return arcs;
+};
+
+// True if `edge` may be traversed from `from` to `to`.
+export const isTraversable = (edge: Edge, from: string, to: string, directed: boolean) =>
+  (edge.source === from && edge.target === to) ||
+  (!directed && edge.source === to && edge.target === from);
+
+/**
+ * The cheapest edge that can be traversed from `from` to `to`, or null if the two
+ * nodes are not adjacent in that direction.
+ */
+export const findArcEdge = (edges: Edge[], from: string, to: string, directed: boolean): Edge | null => {
+  let best: Edge | null = null;
+  for (const edge of edges) {
+    if (isTraversable(edge, from, to, directed) && (!best || edge.weight < best.weight)) best = edge;
+  }
+  return best;
+};
+
+// Edge ids along a node sequence, skipping any hop that has no matching edge.
+export const getPathEdgeIds = (edges: Edge[], nodeIds: string[], directed: boolean): string[] => {
+  const ids: string[] = [];
+  for (let i = 0; i < nodeIds.length - 1; i++) {
+    const edge = findArcEdge(edges, nodeIds[i], nodeIds[i + 1], directed);
+    if (edge) ids.push(edge.id);
+  }
+  return ids;
+};
+
+// Weight given to a newly drawn edge between `source` and `target`
+export const getNewEdgeWeight = (
+  source: Pick<Node, 'x' | 'y'>,
+  target: Pick<Node, 'x' | 'y'>,
+  defaults: EdgeWeightDefaults
+): number => {
+  if (defaults.mode === 'fixed') return defaults.fixed;
+  if (defaults.mode === 'euclidean') {
+    return Math.round(Math.hypot(target.x - source.x, target.y - source.y) * defaults.scale * 10) / 10;
+  }
+  return Math.floor(Math.random() * 9) + 2; // 随机生成 2-10 的整数权重
+};
+
+// Weight typed by the user, or the reason it is rejected
+export const parseEdgeWeight = (text: string, allowNegative: boolean): { weight: number } | { error: string } => {
+  const trimmed = text.trim();
+  const value = Number(trimmed);
+  if (trimmed === '' || !Number.isFinite(value)) return { error: '权值必须是数字' };
+  if (value < 0 && !allowNegative) return { error: '当前算法要求权值非负（负权请选 Bellman-Ford 或 Floyd）' };
+  return { weight: value };
+};
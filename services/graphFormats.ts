@@ -0,0 +1,431 @@
+import { Node, Edge, GraphDocument, GraphFormat } from '../types';
+import { circleLayout } from './layout';
+
+export interface GraphFormatInfo {
+  id: GraphFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+  canImport: boolean;
+  hint: string; // One-line description of the expected layout
+}
+
+export const GRAPH_FORMATS: GraphFormatInfo[] = [
+  { id: 'matrix-csv', label: '权矩阵 CSV', extension: 'csv', mimeType: 'text/csv', canImport: true, hint: '首行/首列可为节点名；空白、0、-、∞ 表示无边；对称矩阵按无向图导入。矩阵表示不了平行边与自环：导出时平行边取最小权值，自环略去。' },
+  { id: 'edge-csv', label: '边列表 CSV', extension: 'csv', mimeType: 'text/csv', canImport: true, hint: '每行 起点,终点,权值（可有表头，权值缺省为 1）。' },
+  { id: 'dimacs', label: 'DIMACS .gr', extension: 'gr', mimeType: 'text/plain', canImport: true, hint: 'p sp <节点数> <弧数>，a <u> <v> <w>，c 开头为注释；按有向图导入。' },
+  { id: 'graphml', label: 'GraphML', extension: 'graphml', mimeType: 'application/xml', canImport: true, hint: '读取 weight、label、x、y 数据键与 edgedefault。' },
+  { id: 'dot', label: 'Graphviz DOT', extension: 'dot', mimeType: 'text/vnd.graphviz', canImport: false, hint: '仅导出。' },
+];
+
+export type ImportResult = { graph: GraphDocument; warnings: string[] } | { errors: string[] };
+
+// Only the first few problems are reported; the rest are summarised
+const MAX_REPORTED_ERRORS = 8;
+
+const finish = (nodes: Node[], edges: Edge[], directed: boolean, errors: string[], warnings: string[],
+  endpoints?: { start?: string, end?: string }): ImportResult => {
+  if (errors.length > 0) {
+    const extra = errors.length - MAX_REPORTED_ERRORS;
+    return { errors: [...errors.slice(0, MAX_REPORTED_ERRORS), ...(extra > 0 ? [`……另有 ${extra} 处错误`] : [])] };
+  }
+  if (nodes.length === 0) return { errors: ['没有读到任何节点'] };
+  const has = (id?: string) => !!id && nodes.some(n => n.id === id);
+  return {
+    graph: {
+      nodes,
+      edges,
+      directed,
+      startNodeId: has(endpoints?.start) ? endpoints!.start! : nodes[0].id,
+      endNodeId: has(endpoints?.end) ? endpoints!.end! : (nodes.length > 1 ? nodes[nodes.length - 1].id : ''),
+    },
+    warnings,
+  };
+};
+
+// --- CSV ---
+
+const detectDelimiter = (line: string) =>
+  [',', ';', '\t'].reduce((best, d) => (line.split(d).length > line.split(best).length ? d : best), ',');
+
+// Splits one CSV line, honouring double-quoted fields
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === delimiter) { cells.push(cell.trim()); cell = ''; }
+    else cell += ch;
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+const csvRows = (text: string) => {
+  const lines = text.split(/\r?\n/).map((line, i) => ({ line, number: i + 1 })).filter(l => l.line.trim() !== '');
+  const delimiter = lines.length > 0 ? detectDelimiter(lines[0].line) : ',';
+  return lines.map(l => ({ cells: splitCsvLine(l.line, delimiter), number: l.number }));
+};
+
+const csvField = (value: string) => (/[",;\t\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+const isNumeric = (value: string) => value.trim() !== '' && Number.isFinite(Number(value));
+const NO_EDGE = new Set(['', '-', '∞', 'inf', 'infinity', 'Infinity', 'INF']);
+
+const parseMatrixCsv = (text: string): ImportResult => {
+  const errors: string[] = [];
+  let rows = csvRows(text);
+  if (rows.length === 0) return { errors: ['文件为空'] };
+
+  // A header row holds node names instead of weights. Names may be numbers, so besides a
+  // non-numeric name the empty corner cell our exporter writes gives it away, as does a
+  // first row one column wider than the rows below it count, unless the table already
+  // reads as a plain square matrix with an empty or zero diagonal
+  const first = rows[0].cells;
+  const isPlainMatrix = rows.every((r, i) => r.cells.length === rows.length && (NO_EDGE.has(r.cells[i]) || Number(r.cells[i]) === 0));
+  let names: string[] | null = null;
+  if (
+    (first.length > 1 && first[0] === '') ||
+    first.slice(1).some(c => c !== '' && !isNumeric(c) && !NO_EDGE.has(c)) ||
+    (!isPlainMatrix && first.length === rows.length)
+  ) {
+    names = first.slice(1);
+    rows = rows.slice(1);
+  }
+  // Likewise a leading label column: non-numeric labels, or one more column than there are rows
+  const rowLabels = rows.every(r => r.cells.length > 0 && !isNumeric(r.cells[0]) && !NO_EDGE.has(r.cells[0])) ||
+    rows.every(r => r.cells.length === rows.length + 1);
+  const matrix = rows.map(r => ({ values: rowLabels ? r.cells.slice(1) : r.cells, number: r.number }));
+  const n = matrix.length;
+  if (names && names.length !== n) errors.push(`表头有 ${names.length} 个节点名，但矩阵有 ${n} 行`);
+
+  const weights: (number | null)[][] = matrix.map(({ values, number }, i) => {
+    if (values.length !== n) errors.push(`第 ${number} 行有 ${values.length} 列，应为 ${n} 列（矩阵必须是方阵）`);
+    return values.slice(0, n).map((v, j) => {
+      if (NO_EDGE.has(v)) return null;
+      if (!isNumeric(v)) {
+        errors.push(`第 ${number} 行第 ${j + 1} 列：“${v}”不是数字`);
+        return null;
+      }
+      // The exporter writes 0 on the diagonal; elsewhere 0 is a zero-weight edge
+      return i === j && Number(v) === 0 ? null : Number(v);
+    });
+  });
+  if (errors.length > 0) return finish([], [], false, errors, []);
+
+  const positions = circleLayout(n);
+  const nodes: Node[] = matrix.map((_, i) => ({
+    id: `${i + 1}`,
+    ...positions[i],
+    label: names?.[i] || (rowLabels ? rows[i].cells[0] : `v${i + 1}`),
+  }));
+  const directed = weights.some((row, i) => row.some((w, j) => w !== weights[j]?.[i]));
+  const edges: Edge[] = [];
+  weights.forEach((row, i) => row.forEach((w, j) => {
+    if (w === null || i === j || (!directed && j < i)) return;
+    edges.push({ id: `e${edges.length + 1}`, source: `${i + 1}`, target: `${j + 1}`, weight: w });
+  }));
+  const warnings = weights.some((row, i) => row[i] !== null) ? ['对角线上的非零值已忽略'] : [];
+  return finish(nodes, edges, directed, [], warnings);
+};
+
+const parseEdgeCsv = (text: string, directed: boolean): ImportResult => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  let rows = csvRows(text);
+  // Only a row naming the columns is a header; any other first row is data and is checked as such
+  const isHeader = (cells: string[]) =>
+    /^(source|from|起点|u)$/i.test(cells[0] ?? '') || /^(weight|w|cost|权值|权重)$/i.test(cells[2] ?? '');
+  if (rows.length > 0 && isHeader(rows[0].cells)) rows = rows.slice(1);
+
+  const idOf = new Map<string, string>();
+  const names: string[] = [];
+  const nodeFor = (name: string) => {
+    if (!idOf.has(name)) {
+      names.push(name);
+      idOf.set(name, `${names.length}`);
+    }
+    return idOf.get(name)!;
+  };
+  const edges: Edge[] = [];
+  for (const { cells, number } of rows) {
+    const [source, target, weightText = ''] = cells;
+    if (!source || !target) {
+      errors.push(`第 ${number} 行：需要起点和终点两列`);
+      continue;
+    }
+    if (weightText !== '' && !isNumeric(weightText)) {
+      errors.push(`第 ${number} 行：权值“${weightText}”不是数字`);
+      continue;
+    }
+    edges.push({ id: `e${edges.length + 1}`, source: nodeFor(source), target: nodeFor(target), weight: weightText === '' ? 1 : Number(weightText) });
+  }
+  const positions = circleLayout(names.length);
+  const nodes = names.map((name, i) => ({ id: `${i + 1}`, ...positions[i], label: name }));
+  return finish(nodes, edges, directed, errors, warnings);
+};
+
+// --- DIMACS shortest path format (9th DIMACS challenge) ---
+
+const parseDimacs = (text: string): ImportResult => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  let nodeCount: number | null = null;
+  let declaredArcs = 0;
+  const edges: Edge[] = [];
+  const labels = new Map<string, string>(); // From "c node <i> <label>" comments written by our exporter
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim();
+    const number = i + 1;
+    const labelComment = line.match(/^c node (\d+) (.+)$/);
+    if (labelComment) labels.set(labelComment[1], labelComment[2]);
+    if (line === '' || line.startsWith('c')) return;
+    const parts = line.split(/\s+/);
+    if (parts[0] === 'p') {
+      if (parts.length < 4 || !isNumeric(parts[2]) || !isNumeric(parts[3])) {
+        errors.push(`第 ${number} 行：问题行应为 “p sp <节点数> <弧数>”`);
+        return;
+      }
+      nodeCount = Number(parts[2]);
+      declaredArcs = Number(parts[3]);
+    } else if (parts[0] === 'a') {
+      if (nodeCount === null) {
+        errors.push(`第 ${number} 行：弧出现在问题行 “p sp …” 之前`);
+        return;
+      }
+      const [u, v, w] = parts.slice(1, 4).map(Number);
+      if (parts.length < 4 || [u, v, w].some(x => !Number.isFinite(x))) {
+        errors.push(`第 ${number} 行：弧行应为 “a <u> <v> <w>”`);
+      } else if (u < 1 || v < 1 || u > nodeCount || v > nodeCount || !Number.isInteger(u) || !Number.isInteger(v)) {
+        errors.push(`第 ${number} 行：节点编号应在 1 到 ${nodeCount} 之间`);
+      } else {
+        edges.push({ id: `e${edges.length + 1}`, source: `${u}`, target: `${v}`, weight: w });
+      }
+    } else {
+      errors.push(`第 ${number} 行：无法识别的行类型 “${parts[0]}”`);
+    }
+  });
+
+  if (nodeCount === null) return finish([], [], true, [...errors, '缺少问题行 “p sp <节点数> <弧数>”'], []);
+  if (declaredArcs !== edges.length) warnings.push(`问题行声明 ${declaredArcs} 条弧，实际读到 ${edges.length} 条`);
+  const positions = circleLayout(nodeCount);
+  const nodes = positions.map((p, i) => ({ id: `${i + 1}`, ...p, label: labels.get(`${i + 1}`) ?? `v${i + 1}` }));
+  return finish(nodes, edges, true, errors, warnings);
+};
+
+// --- GraphML ---
+
+const parseGraphml = (text: string): ImportResult => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) return { errors: ['XML 格式错误，无法解析'] };
+  const graphEl = doc.getElementsByTagName('graph')[0];
+  if (!graphEl) return { errors: ['缺少 <graph> 元素'] };
+
+  // Map data keys to attribute names (weight, label, x, y, ...)
+  const keyName = new Map<string, string>();
+  for (const key of Array.from(doc.getElementsByTagName('key'))) {
+    keyName.set(key.getAttribute('id') ?? '', (key.getAttribute('attr.name') ?? key.getAttribute('id') ?? '').toLowerCase());
+  }
+  const dataOf = (el: Element) => {
+    const data: Record<string, string> = {};
+    for (const d of Array.from(el.children)) {
+      if (d.tagName === 'data') data[keyName.get(d.getAttribute('key') ?? '') ?? d.getAttribute('key') ?? ''] = d.textContent?.trim() ?? '';
+    }
+    return data;
+  };
+
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const nodeEls = Array.from(graphEl.getElementsByTagName('node'));
+  const positions = circleLayout(nodeEls.length);
+  const ids = new Set<string>();
+  const nodes: Node[] = nodeEls.map((el, i) => {
+    const id = el.getAttribute('id') ?? '';
+    if (!id) errors.push(`第 ${i + 1} 个节点缺少 id`);
+    else if (ids.has(id)) errors.push(`节点 id 重复：${id}`);
+    ids.add(id);
+    const data = dataOf(el);
+    const hasPos = isNumeric(data.x ?? '') && isNumeric(data.y ?? '');
+    return {
+      id,
+      x: hasPos ? Number(data.x) : positions[i].x,
+      y: hasPos ? Number(data.y) : positions[i].y,
+      label: data.label || data.name || id,
+    };
+  });
+
+  const edgeDefault = graphEl.getAttribute('edgedefault') ?? 'directed';
+  let directed = edgeDefault === 'directed';
+  const edgeEls = Array.from(graphEl.getElementsByTagName('edge'));
+  if (edgeEls.some(el => el.hasAttribute('directed') && (el.getAttribute('directed') === 'true') !== directed)) {
+    warnings.push('存在与 edgedefault 不同的单条边方向，已统一按有向图导入');
+    directed = true;
+  }
+  const edges: Edge[] = [];
+  const edgeIds = new Set<string>();
+  // Edges without an id get `e<n>`, skipping numbers the file uses itself
+  const declaredIds = new Set(edgeEls.map(el => el.getAttribute('id')).filter(Boolean));
+  const freeEdgeId = (from: number) => {
+    let n = from;
+    while (declaredIds.has(`e${n}`) || edgeIds.has(`e${n}`)) n++;
+    return `e${n}`;
+  };
+  edgeEls.forEach((el, i) => {
+    const source = el.getAttribute('source') ?? '';
+    const target = el.getAttribute('target') ?? '';
+    const label = el.getAttribute('id') ?? `第 ${i + 1} 条边`;
+    if (!ids.has(source) || !ids.has(target)) {
+      errors.push(`边 ${label} 引用了不存在的节点`);
+      return;
+    }
+    const id = el.getAttribute('id') || freeEdgeId(i + 1);
+    if (edgeIds.has(id)) {
+      errors.push(`边 id 重复：${id}`);
+      return;
+    }
+    edgeIds.add(id);
+    const weightText = dataOf(el).weight ?? '';
+    if (weightText !== '' && !isNumeric(weightText)) {
+      errors.push(`边 ${label} 的权值“${weightText}”不是数字`);
+      return;
+    }
+    edges.push({ id, source, target, weight: weightText === '' ? 1 : Number(weightText) });
+  });
+
+  const graphData = dataOf(graphEl);
+  return finish(nodes, edges, directed, errors, warnings, { start: graphData.start, end: graphData.end });
+};
+
+/**
+ * Reads `text` in the given format. Formats that do not state a direction use
+ * `directed`; nodes without coordinates are placed on a circle.
+ */
+export const importGraph = (text: string, format: GraphFormat, directed = false): ImportResult => {
+  switch (format) {
+    case 'matrix-csv': return parseMatrixCsv(text);
+    case 'edge-csv': return parseEdgeCsv(text, directed);
+    case 'dimacs': return parseDimacs(text);
+    case 'graphml': return parseGraphml(text);
+    default: return { errors: ['该格式只支持导出'] };
+  }
+};
+
+// Guesses the format from the file name, and for CSV from whether the data is a square table
+export const detectFormat = (fileName: string, text: string): GraphFormat | null => {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'gr' || ext === 'dimacs') return 'dimacs';
+  if (ext === 'graphml' || ext === 'xml') return 'graphml';
+  if (ext === 'csv' || ext === 'tsv' || ext === 'txt') {
+    if (/^\s*(c|p)\s/m.test(text) && /^\s*p\s+sp\s/m.test(text)) return 'dimacs';
+    const rows = csvRows(text);
+    const width = Math.max(...rows.map(r => r.cells.length), 0);
+    return rows.length >= 2 && Math.abs(width - rows.length) <= 1 && width > 3 ? 'matrix-csv' : 'edge-csv';
+  }
+  return null;
+};
+
+// --- Exporters ---
+
+// Labels are used as names when they are unique, ids otherwise
+const nodeNames = (nodes: Node[]) => {
+  const labels = nodes.map(n => n.label ?? n.id);
+  const unique = new Set(labels).size === labels.length;
+  return new Map(nodes.map((n, i) => [n.id, unique ? labels[i] : n.id]));
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const exportMatrixCsv = ({ nodes, edges, directed }: GraphDocument) => {
+  const names = nodeNames(nodes);
+  const index = new Map(nodes.map((n, i) => [n.id, i]));
+  const matrix: (number | null)[][] = nodes.map((_, i) => nodes.map((_, j) => (i === j ? 0 : null)));
+  const set = (i: number, j: number, w: number) => {
+    if (i !== j && (matrix[i][j] === null || w < matrix[i][j]!)) matrix[i][j] = w;
+  };
+  for (const e of edges) {
+    const i = index.get(e.source)!;
+    const j = index.get(e.target)!;
+    set(i, j, e.weight);
+    if (!directed) set(j, i, e.weight);
+  }
+  const header = ['', ...nodes.map(n => csvField(names.get(n.id)!))].join(',');
+  const rows = nodes.map((n, i) => [csvField(names.get(n.id)!), ...matrix[i].map(w => (w === null ? '' : `${w}`))].join(','));
+  return [header, ...rows].join('\n') + '\n';
+};
+
+const exportEdgeCsv = ({ nodes, edges }: GraphDocument) => {
+  const names = nodeNames(nodes);
+  return ['source,target,weight', ...edges.map(e => `${csvField(names.get(e.source)!)},${csvField(names.get(e.target)!)},${e.weight}`)].join('\n') + '\n';
+};
+
+const exportDimacs = ({ nodes, edges, directed }: GraphDocument) => {
+  const index = new Map(nodes.map((n, i) => [n.id, i + 1]));
+  const arcs = edges.flatMap(e => {
+    const u = index.get(e.source)!;
+    const v = index.get(e.target)!;
+    // An undirected self-loop is a single arc either way round
+    return directed || u === v ? [`a ${u} ${v} ${e.weight}`] : [`a ${u} ${v} ${e.weight}`, `a ${v} ${u} ${e.weight}`];
+  });
+  return [
+    'c Shortest Path Visualizer export',
+    ...(directed ? [] : ['c undirected graph: every edge is written as two arcs']),
+    ...nodes.map((n, i) => `c node ${i + 1} ${n.label ?? n.id}`),
+    `p sp ${nodes.length} ${arcs.length}`,
+    ...arcs,
+  ].join('\n') + '\n';
+};
+
+const exportGraphml = ({ nodes, edges, directed, startNodeId, endNodeId }: GraphDocument) => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+  '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+  '  <key id="x" for="node" attr.name="x" attr.type="double"/>',
+  '  <key id="y" for="node" attr.name="y" attr.type="double"/>',
+  '  <key id="weight" for="edge" attr.name="weight" attr.type="double"/>',
+  '  <key id="start" for="graph" attr.name="start" attr.type="string"/>',
+  '  <key id="end" for="graph" attr.name="end" attr.type="string"/>',
+  `  <graph id="G" edgedefault="${directed ? 'directed' : 'undirected'}">`,
+  ...(startNodeId ? [`    <data key="start">${escapeXml(startNodeId)}</data>`] : []),
+  ...(endNodeId ? [`    <data key="end">${escapeXml(endNodeId)}</data>`] : []),
+  ...nodes.map(n =>
+    `    <node id="${escapeXml(n.id)}"><data key="label">${escapeXml(n.label ?? n.id)}</data><data key="x">${n.x}</data><data key="y">${n.y}</data></node>`),
+  ...edges.map(e =>
+    `    <edge id="${escapeXml(e.id)}" source="${escapeXml(e.source)}" target="${escapeXml(e.target)}"><data key="weight">${e.weight}</data></edge>`),
+  '  </graph>',
+  '</graphml>',
+].join('\n') + '\n';
+
+const exportDot = ({ nodes, edges, directed, startNodeId, endNodeId }: GraphDocument) => {
+  const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  // Graphviz puts the origin at the bottom left, so y is flipped; pos is in points with "!" to pin it
+  const maxY = Math.max(0, ...nodes.map(n => n.y));
+  const arrow = directed ? '->' : '--';
+  return [
+    `${directed ? 'digraph' : 'graph'} G {`,
+    '  node [shape=circle];',
+    ...nodes.map(n => {
+      const extra = n.id === startNodeId ? ', color=green' : n.id === endNodeId ? ', color=red' : '';
+      return `  ${quote(n.id)} [label=${quote(n.label ?? n.id)}, pos="${Math.round(n.x)},${Math.round(maxY - n.y)}!"${extra}];`;
+    }),
+    ...edges.map(e => `  ${quote(e.source)} ${arrow} ${quote(e.target)} [label=${quote(`${e.weight}`)}];`),
+    '}',
+  ].join('\n') + '\n';
+};
+
+export const exportGraph = (graph: GraphDocument, format: GraphFormat): string => {
+  switch (format) {
+    case 'matrix-csv': return exportMatrixCsv(graph);
+    case 'edge-csv': return exportEdgeCsv(graph);
+    case 'dimacs': return exportDimacs(graph);
+    case 'graphml': return exportGraphml(graph);
+    case 'dot': return exportDot(graph);
+  }
+};
@@ -0,0 +1,147 @@
+import { Node, Edge, GraphDocument, GraphFile, LibraryEntry } from '../types';
+
+export const GRAPH_FILE_FORMAT = 'shortest-path-graph';
+export const GRAPH_FILE_VERSION = 1;
+
+const AUTOSAVE_KEY = 'spv.autosave';
+const LIBRARY_KEY = 'spv.library';
+
+export const createGraphFile = (graph: GraphDocument, name: string, description?: string, createdAt?: string): GraphFile => {
+  const now = new Date().toISOString();
+  return {
+    format: GRAPH_FILE_FORMAT,
+    version: GRAPH_FILE_VERSION,
+    name,
+    ...(description ? { description } : {}),
+    createdAt: createdAt ?? now,
+    updatedAt: now,
+    graph,
+  };
+};
+
+export const serializeGraphFile = (file: GraphFile) => JSON.stringify(file, null, 2);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Checks the graph part of a file; the first problem found is reported
+const validateGraph = (raw: unknown): { graph: GraphDocument } | { error: string } => {
+  if (!isRecord(raw) || !Array.isArray(raw.nodes) || !Array.isArray(raw.edges)) return { error: '缺少 nodes 或 edges 数组' };
+
+  const nodes: Node[] = [];
+  const ids = new Set<string>();
+  for (const n of raw.nodes) {
+    if (!isRecord(n) || typeof n.id !== 'string' || typeof n.x !== 'number' || typeof n.y !== 'number') {
+      return { error: '节点必须包含字符串 id 与数值坐标 x、y' };
+    }
+    if (ids.has(n.id)) return { error: `节点 id 重复：${n.id}` };
+    ids.add(n.id);
+    nodes.push({
+      id: n.id,
+      x: n.x,
+      y: n.y,
+      label: typeof n.label === 'string' ? n.label : `v${n.id}`,
+      ...(n.pinned === true ? { pinned: true } : {}),
+    });
+  }
+
+  const edges: Edge[] = [];
+  for (const e of raw.edges) {
+    if (!isRecord(e) || typeof e.id !== 'string' || typeof e.source !== 'string' || typeof e.target !== 'string') {
+      return { error: '边必须包含字符串 id、source 与 target' };
+    }
+    if (typeof e.weight !== 'number' || !Number.isFinite(e.weight)) return { error: `边 ${e.id} 的权值不是有效数字` };
+    if (!ids.has(e.source) || !ids.has(e.target)) return { error: `边 ${e.id} 引用了不存在的节点` };
+    edges.push({ id: e.id, source: e.source, target: e.target, weight: e.weight });
+  }
+
+  const endpoint = (value: unknown) => (typeof value === 'string' && ids.has(value) ? value : '');
+  return {
+    graph: {
+      nodes,
+      edges,
+      startNodeId: endpoint(raw.startNodeId),
+      endNodeId: endpoint(raw.endNodeId),
+      directed: raw.directed === true,
+    },
+  };
+};
+
+/**
+ * Parses and validates a graph file. Files written by a newer version are rejected
+ * rather than partially loaded.
+ */
+export const parseGraphFile = (text: string): { file: GraphFile } | { error: string } => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { error: '文件不是有效的 JSON' };
+  }
+  if (!isRecord(raw) || raw.format !== GRAPH_FILE_FORMAT) return { error: '不是本工具保存的图文件' };
+  if (typeof raw.version !== 'number' || raw.version > GRAPH_FILE_VERSION) {
+    return { error: `文件版本 ${String(raw.version)} 高于当前支持的版本 ${GRAPH_FILE_VERSION}` };
+  }
+
+  const result = validateGraph(raw.graph);
+  if ('error' in result) return result;
+  const now = new Date().toISOString();
+  return {
+    file: {
+      format: GRAPH_FILE_FORMAT,
+      version: GRAPH_FILE_VERSION,
+      name: typeof raw.name === 'string' && raw.name.trim() ? raw.name : '未命名图',
+      ...(typeof raw.description === 'string' && raw.description ? { description: raw.description } : {}),
+      createdAt: typeof raw.createdAt === 'string' ? raw.createdAt : now,
+      updatedAt: typeof raw.updatedAt === 'string' ? raw.updatedAt : now,
+      graph: result.graph,
+    },
+  };
+};
+
+// --- localStorage (unavailable storage or quota errors are ignored) ---
+
+const readStorage = (key: string): string | null => {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+const writeStorage = (key: string, value: string): boolean => {
+  try {
+    localStorage.setItem(key, value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const loadAutosave = (): GraphDocument | null => {
+  const text = readStorage(AUTOSAVE_KEY);
+  if (!text) return null;
+  const result = parseGraphFile(text);
+  return 'file' in result ? result.file.graph : null;
+};
+
+export const saveAutosave = (graph: GraphDocument) =>
+  writeStorage(AUTOSAVE_KEY, JSON.stringify(createGraphFile(graph, '自动保存')));
+
+export const loadLibrary = (): LibraryEntry[] => {
+  const text = readStorage(LIBRARY_KEY);
+  if (!text) return [];
+  try {
+    const raw = JSON.parse(text);
+    if (!Array.isArray(raw)) return [];
+    // Entries that no longer validate are skipped instead of breaking the whole library
+    return raw.flatMap((item): LibraryEntry[] => {
+      const result = parseGraphFile(JSON.stringify(item));
+      return 'file' in result && typeof item.id === 'string' ? [{ ...result.file, id: item.id }] : [];
+    });
+  } catch {
+    return [];
+  }
+};
+
+export const saveLibrary = (entries: LibraryEntry[]) => writeStorage(LIBRARY_KEY, JSON.stringify(entries));
@@ -0,0 +1,41 @@
+import { GraphDocument, HistoryEntry, HistoryState } from '../types';
+
+// Oldest entries are dropped beyond this many undo steps
+export const MAX_HISTORY = 100;
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+export const isSameDocument = (a: GraphDocument, b: GraphDocument) =>
+  a.nodes === b.nodes &&
+  a.edges === b.edges &&
+  a.startNodeId === b.startNodeId &&
+  a.endNodeId === b.endNodeId &&
+  a.directed === b.directed;
+
+/**
+ * Records an executed edit. Documents are immutable, so an entry only holds references
+ * to the arrays before and after the edit. A new edit clears the redo stack.
+ */
+export const recordEdit = (history: HistoryState, entry: HistoryEntry): HistoryState => {
+  if (isSameDocument(entry.before, entry.after)) return history;
+  return { past: [...history.past, entry].slice(-MAX_HISTORY), future: [] };
+};
+
+// The document to restore and the history after moving one entry back or forward
+export const undoEdit = (history: HistoryState): { history: HistoryState, document: GraphDocument } | null => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [entry, ...history.future] },
+    document: entry.before,
+  };
+};
+
+export const redoEdit = (history: HistoryState): { history: HistoryState, document: GraphDocument } | null => {
+  const entry = history.future[0];
+  if (!entry) return null;
+  return {
+    history: { past: [...history.past, entry], future: history.future.slice(1) },
+    document: entry.after,
+  };
+};
@@ -0,0 +1,144 @@
+import { forceSimulation, forceLink, forceManyBody, forceCollide, forceX, forceY } from 'd3';
+import { Node, GraphDocument, LayoutKind } from '../types';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Centre of the canvas area visible at 100% zoom; used when there is nothing to centre on
+const DEFAULT_CENTER: Point = { x: 445, y: 260 };
+const SPACING = 120; // Distance between neighbouring grid cells and layers
+
+export const LAYOUTS: { id: LayoutKind, label: string, description: string }[] = [
+  { id: 'force', label: '力导向', description: '相连节点相互吸引、所有节点相互排斥，适合一般的图。' },
+  { id: 'layered', label: '分层（从左到右）', description: '按离起点的边数分层，起点在最左侧，适合演示标号的推进。' },
+  { id: 'circle', label: '环形', description: '节点按当前顺序均匀排在圆周上。' },
+  { id: 'grid', label: '网格', description: '节点按当前顺序排成方阵。' },
+];
+
+// Evenly spaced positions on a circle, starting at the left
+export const circleLayout = (count: number, center: Point = DEFAULT_CENTER): Point[] => {
+  const radius = Math.max(150, count * 14);
+  return Array.from({ length: count }, (_, i) => {
+    const angle = (2 * Math.PI * i) / Math.max(1, count) - Math.PI;
+    return { x: Math.round(center.x + radius * Math.cos(angle)), y: Math.round(center.y + radius * Math.sin(angle)) };
+  });
+};
+
+const gridLayout = (count: number, center: Point): Point[] => {
+  const columns = Math.ceil(Math.sqrt(count));
+  const rows = Math.ceil(count / Math.max(1, columns));
+  return Array.from({ length: count }, (_, i) => ({
+    x: Math.round(center.x + (i % columns - (columns - 1) / 2) * SPACING),
+    y: Math.round(center.y + (Math.floor(i / columns) - (rows - 1) / 2) * SPACING),
+  }));
+};
+
+/**
+ * Columns by breadth-first hop count from the start node (following arc direction in a
+ * directed graph); unreachable nodes form a last column. Within a column nodes are
+ * ordered by the mean row of their neighbours in the previous column, which removes
+ * most crossings for the small graphs used in class.
+ */
+const layeredLayout = (graph: GraphDocument, center: Point): Point[] => {
+  const { nodes, edges, directed } = graph;
+  const neighbours = new Map<string, string[]>(nodes.map(n => [n.id, []]));
+  const predecessors = new Map<string, string[]>(nodes.map(n => [n.id, []]));
+  edges.forEach(e => {
+    neighbours.get(e.source)?.push(e.target);
+    predecessors.get(e.target)?.push(e.source);
+    if (!directed) {
+      neighbours.get(e.target)?.push(e.source);
+      predecessors.get(e.source)?.push(e.target);
+    }
+  });
+
+  const root = nodes.some(n => n.id === graph.startNodeId) ? graph.startNodeId : nodes[0]?.id;
+  const depth = new Map<string, number>();
+  if (root) {
+    depth.set(root, 0);
+    const queue = [root];
+    while (queue.length > 0) {
+      const u = queue.shift()!;
+      neighbours.get(u)!.forEach(v => {
+        if (depth.has(v)) return;
+        depth.set(v, depth.get(u)! + 1);
+        queue.push(v);
+      });
+    }
+  }
+  const lastLayer = Math.max(-1, ...depth.values()) + 1;
+  const layers: string[][] = Array.from({ length: lastLayer + 1 }, () => []);
+  nodes.forEach(n => layers[depth.get(n.id) ?? lastLayer].push(n.id));
+  if (layers[lastLayer].length === 0) layers.pop();
+
+  const row = new Map<string, number>();
+  layers.forEach((layer, i) => {
+    if (i > 0) {
+      const key = (id: string) => {
+        const placed = predecessors.get(id)!.filter(p => depth.get(p) === i - 1).map(p => row.get(p)!);
+        return placed.length > 0 ? placed.reduce((a, b) => a + b, 0) / placed.length : Infinity;
+      };
+      const keys = new Map(layer.map(id => [id, key(id)]));
+      layer.sort((a, b) => keys.get(a)! - keys.get(b)!);
+    }
+    layer.forEach((id, j) => row.set(id, j - (layer.length - 1) / 2));
+  });
+
+  const layerOf = new Map<string, number>();
+  layers.forEach((layer, i) => layer.forEach(id => layerOf.set(id, i)));
+  return nodes.map(n => ({
+    x: Math.round(center.x + (layerOf.get(n.id)! - (layers.length - 1) / 2) * SPACING * 1.4),
+    y: Math.round(center.y + row.get(n.id)! * SPACING),
+  }));
+};
+
+/**
+ * Force-directed placement with d3-force, run to rest synchronously. Nodes start from
+ * their current positions, so re-running only tidies the drawing; pinned nodes are fixed
+ * and the rest arrange themselves around them.
+ */
+const forceLayout = (graph: GraphDocument, center: Point): Point[] => {
+  const simNodes = graph.nodes.map(n => ({
+    id: n.id,
+    x: n.x,
+    y: n.y,
+    ...(n.pinned ? { fx: n.x, fy: n.y } : {}),
+  }));
+  const ids = new Set(simNodes.map(n => n.id));
+  const links = graph.edges
+    .filter(e => ids.has(e.source) && ids.has(e.target) && e.source !== e.target)
+    .map(e => ({ source: e.source, target: e.target }));
+
+  const simulation = forceSimulation(simNodes)
+    .force('link', forceLink(links).id((d: { id: string }) => d.id).distance(SPACING).strength(0.7))
+    .force('charge', forceManyBody().strength(-600))
+    .force('collide', forceCollide(45))
+    .force('x', forceX(center.x).strength(0.05))
+    .force('y', forceY(center.y).strength(0.05))
+    .stop();
+  for (let i = 0; i < 300; i++) simulation.tick();
+
+  return simNodes.map(n => ({ x: Math.round(n.x), y: Math.round(n.y) }));
+};
+
+const centroid = (nodes: Node[]): Point => (nodes.length === 0
+  ? DEFAULT_CENTER
+  : {
+    x: nodes.reduce((sum, n) => sum + n.x, 0) / nodes.length,
+    y: nodes.reduce((sum, n) => sum + n.y, 0) / nodes.length,
+  });
+
+/**
+ * New node positions for `kind`, centred where the graph currently is. Pinned nodes keep
+ * their coordinates; the other nodes take the computed places.
+ */
+export const applyLayout = (kind: LayoutKind, graph: GraphDocument): Node[] => {
+  const center = centroid(graph.nodes);
+  const positions = kind === 'force' ? forceLayout(graph, center)
+    : kind === 'layered' ? layeredLayout(graph, center)
+    : kind === 'grid' ? gridLayout(graph.nodes.length, center)
+    : circleLayout(graph.nodes.length, center);
+  return graph.nodes.map((n, i) => (n.pinned ? n : { ...n, ...positions[i] }));
+};
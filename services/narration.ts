@@ -0,0 +1,45 @@
+import { Node, Edge, CanvasScene, CanvasStepState } from '../types';
+import { getNodeLabelText } from './canvasStyle';
+
+// Label changes read out per step; beyond this only the count is announced
+const MAX_CHANGES_READ = 5;
+
+const labelOf = (nodes: Node[], id: string) => nodes.find(n => n.id === id)?.label ?? id;
+
+// Spoken name of a node, with its role and, during a run, its current label
+export const describeNode = (scene: CanvasScene, node: Node) => {
+  const parts = [`节点 ${node.label ?? node.id}`];
+  if (node.id === scene.startNodeId) parts.push('起点');
+  if (node.id === scene.endNodeId) parts.push('终点');
+  const state = scene.stepState?.nodeStates[node.id];
+  if (state) parts.push(`标号 ${getNodeLabelText(scene, node)}${state.status === 'permanent' ? '，永久' : ''}`);
+  const degree = scene.edges.filter(e => e.source === node.id || e.target === node.id).length;
+  parts.push(`${degree} 条关联边`);
+  return parts.join('，');
+};
+
+export const describeEdge = (scene: CanvasScene, edge: Edge) =>
+  `${scene.directed ? '弧' : '边'} ${labelOf(scene.nodes, edge.source)} ${scene.directed ? '到' : '与'} ${labelOf(scene.nodes, edge.target)}，权值 ${edge.weight}`;
+
+/**
+ * What a screen reader says when the playback reaches a step: its description followed
+ * by the labels that changed since `previous` (the step before it, or null for the first).
+ */
+export const narrateStep = (scene: CanvasScene, description: string, previous: CanvasStepState | null) => {
+  const current = scene.stepState;
+  if (!current) return description;
+  const changes: string[] = [];
+  scene.nodes.forEach(node => {
+    const state = current.nodeStates[node.id];
+    const before = previous?.nodeStates[node.id];
+    if (!state || (before && before.distance === state.distance && before.parent === state.parent && before.status === state.status)) return;
+    const label = getNodeLabelText(scene, node);
+    changes.push(state.status === 'permanent' && before?.status !== 'permanent'
+      ? `${node.label ?? node.id} 成为永久标号 ${label}`
+      : `${node.label ?? node.id} 标号变为 ${label}`);
+  });
+  if (changes.length === 0) return description;
+  const read = changes.slice(0, MAX_CHANGES_READ).join('；');
+  const rest = changes.length > MAX_CHANGES_READ ? `；另有 ${changes.length - MAX_CHANGES_READ} 个标号变化` : '';
+  return `${description}。${read}${rest}。`;
+};
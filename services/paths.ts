@@ -0,0 +1,40 @@
+import { AlgorithmNodeState } from '../types';
+
+// Enumeration stops here so that graphs with many ties cannot blow up the result panel
+export const MAX_ENUMERATED_PATHS = 100;
+
+/**
+ * Every start -> end path in the shortest-path DAG described by `parents` (falling
+ * back to the single `parent` when ties were not tracked). Edge ids come from the
+ * labels' `parentEdges` / `parentEdge`, so tied parallel edges give separate paths.
+ */
+export const enumerateParentPaths = (
+  nodeStates: Record<string, AlgorithmNodeState>,
+  startNodeId: string,
+  endNodeId: string,
+  limit: number = MAX_ENUMERATED_PATHS
+): { nodeIds: string[], edgeIds: string[] }[] => {
+  const paths: { nodeIds: string[], edgeIds: string[] }[] = [];
+  const predecessorsOf = (id: string) => {
+    const state = nodeStates[id];
+    if (!state) return [];
+    if (state.parents) return state.parents.map((node, i) => ({ node, edge: state.parentEdges?.[i] }));
+    return state.parent ? [{ node: state.parent, edge: state.parentEdge ?? undefined }] : [];
+  };
+
+  // Depth-first walk from the end node back towards the start
+  const walk = (id: string, nodeSuffix: string[], edgeSuffix: string[]) => {
+    if (paths.length >= limit) return;
+    if (id === startNodeId) {
+      paths.push({ nodeIds: [id, ...nodeSuffix], edgeIds: edgeSuffix });
+      return;
+    }
+    for (const p of predecessorsOf(id)) {
+      if (p.node === id || nodeSuffix.includes(p.node)) continue;
+      walk(p.node, [id, ...nodeSuffix], p.edge ? [p.edge, ...edgeSuffix] : edgeSuffix);
+    }
+  };
+
+  walk(endNodeId, [], []);
+  return paths;
+};
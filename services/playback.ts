@@ -0,0 +1,74 @@
+import { Node, Breakpoint, StepTrace, TraceFrame, GraphDocument } from '../types';
+
+// Milliseconds per step; the middle entry is the default
+export const PLAYBACK_SPEEDS = [
+  { ms: 2000, label: '0.5×' },
+  { ms: 1000, label: '1×' },
+  { ms: 500, label: '2×' },
+  { ms: 250, label: '4×' },
+  { ms: 100, label: '10×' },
+];
+
+export const DEFAULT_PLAYBACK_SPEED = 1000;
+
+export const BREAKPOINT_KINDS: { id: Breakpoint['kind'], label: string }[] = [
+  { id: 'permanent', label: '成为永久标号' },
+  { id: 'label', label: '标号更新' },
+];
+
+// One notch faster (+1) or slower (-1) than `ms`, staying within the list
+export const shiftPlaybackSpeed = (ms: number, by: 1 | -1) => {
+  const index = PLAYBACK_SPEEDS.findIndex(s => s.ms === ms);
+  const next = Math.min(PLAYBACK_SPEEDS.length - 1, Math.max(0, (index < 0 ? 1 : index) + by));
+  return PLAYBACK_SPEEDS[next].ms;
+};
+
+export const getSpeedLabel = (ms: number) => PLAYBACK_SPEEDS.find(s => s.ms === ms)?.label ?? `${ms} ms`;
+
+// Labels written by a step, forward and backward search alike
+const changesOf = (frame: TraceFrame) => [
+  ...Object.entries(frame.nodeChanges),
+  ...Object.entries(frame.backwardChanges ?? {}),
+];
+
+/**
+ * Whether playback should stop at this step. Frames only record the labels that differ
+ * from the previous step, so a label update is any recorded change and a node becomes
+ * permanent when its recorded label is permanent.
+ */
+export const matchesBreakpoint = (frame: TraceFrame, breakpoint: Breakpoint) =>
+  changesOf(frame).some(([id, state]) =>
+    (breakpoint.nodeId === null || id === breakpoint.nodeId)
+    && (breakpoint.kind === 'label' || state.status === 'permanent'));
+
+// Steps at which some node's label becomes permanent, the stops of “next permanent label”
+export const ANY_PERMANENT: Breakpoint = { id: 'any-permanent', kind: 'permanent', nodeId: null };
+
+// First step after `from` that matches, or -1
+export const findNextStep = (trace: StepTrace, from: number, test: (frame: TraceFrame) => boolean) => {
+  for (let i = Math.max(0, from + 1); i < trace.frames.length; i++) {
+    if (test(trace.frames[i])) return i;
+  }
+  return -1;
+};
+
+// Every step that matches, for the markers on the timeline
+export const findMatchingSteps = (trace: StepTrace, test: (frame: TraceFrame) => boolean) => {
+  const hits: number[] = [];
+  trace.frames.forEach((frame, i) => {
+    if (i > 0 && test(frame)) hits.push(i);
+  });
+  return hits;
+};
+
+export const describeBreakpoint = (breakpoint: Breakpoint, nodes: Node[]) => {
+  const node = breakpoint.nodeId === null ? null : nodes.find(n => n.id === breakpoint.nodeId);
+  const who = breakpoint.nodeId === null ? '任一节点' : node?.label ?? breakpoint.nodeId;
+  return breakpoint.kind === 'permanent' ? `${who}成为永久标号` : `${who}标号更新`;
+};
+
+export const isSameBreakpoint = (a: Breakpoint, b: Breakpoint) => a.kind === b.kind && a.nodeId === b.nodeId;
+
+// Drops breakpoints on nodes that no longer exist
+export const pruneBreakpoints = (breakpoints: Breakpoint[], graph: GraphDocument) =>
+  breakpoints.filter(bp => bp.nodeId === null || graph.nodes.some(n => n.id === bp.nodeId));
@@ -0,0 +1,64 @@
+export interface MinHeap<T> {
+  push: (item: T) => void;
+  pop: () => T | undefined;
+  peek: () => T | undefined;
+  size: () => number;
+  toArray: () => T[]; // Heap order, not sorted
+}
+
+/**
+ * Array-backed binary min-heap. Runners use it with lazy deletion: a decreased key is
+ * pushed again and the outdated entry is skipped when it surfaces.
+ */
+export const createMinHeap = <T>(compare: (a: T, b: T) => number): MinHeap<T> => {
+  const items: T[] = [];
+
+  const swap = (i: number, j: number) => {
+    const tmp = items[i];
+    items[i] = items[j];
+    items[j] = tmp;
+  };
+
+  const siftUp = (i: number) => {
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (compare(items[i], items[parent]) >= 0) break;
+      swap(i, parent);
+      i = parent;
+    }
+  };
+
+  const siftDown = (i: number) => {
+    const n = items.length;
+    while (true) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let smallest = i;
+      if (left < n && compare(items[left], items[smallest]) < 0) smallest = left;
+      if (right < n && compare(items[right], items[smallest]) < 0) smallest = right;
+      if (smallest === i) break;
+      swap(i, smallest);
+      i = smallest;
+    }
+  };
+
+  return {
+    push: (item) => {
+      items.push(item);
+      siftUp(items.length - 1);
+    },
+    pop: () => {
+      if (items.length === 0) return undefined;
+      const top = items[0];
+      const last = items.pop()!;
+      if (items.length > 0) {
+        items[0] = last;
+        siftDown(0);
+      }
+      return top;
+    },
+    peek: () => items[0],
+    size: () => items.length,
+    toArray: () => [...items],
+  };
+};
@@ -0,0 +1,114 @@
+import { Node, Edge, GraphDocument, Selection, GraphClipboard } from '../types';
+
+// Offset of each successive paste, so copies do not land exactly on the originals
+export const PASTE_OFFSET = 30;
+
+export const selectNode = (id: string): Selection => ({ nodeIds: [id], edgeIds: [] });
+export const selectEdge = (id: string): Selection => ({ nodeIds: [], edgeIds: [id] });
+
+export const isNodeSelected = (selection: Selection | null, id: string) => !!selection?.nodeIds.includes(id);
+export const isEdgeSelected = (selection: Selection | null, id: string) => !!selection?.edgeIds.includes(id);
+
+const normalize = (selection: Selection): Selection | null =>
+  selection.nodeIds.length === 0 && selection.edgeIds.length === 0 ? null : selection;
+
+const toggle = (ids: string[], id: string) => (ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]);
+
+// Shift+click: adds the element, or removes it when it was already selected
+export const toggleNode = (selection: Selection | null, id: string) =>
+  normalize({ nodeIds: toggle(selection?.nodeIds ?? [], id), edgeIds: selection?.edgeIds ?? [] });
+
+export const toggleEdge = (selection: Selection | null, id: string) =>
+  normalize({ nodeIds: selection?.nodeIds ?? [], edgeIds: toggle(selection?.edgeIds ?? [], id) });
+
+export const mergeSelections = (a: Selection | null, b: Selection | null) =>
+  normalize({
+    nodeIds: [...new Set([...(a?.nodeIds ?? []), ...(b?.nodeIds ?? [])])],
+    edgeIds: [...new Set([...(a?.edgeIds ?? []), ...(b?.edgeIds ?? [])])],
+  });
+
+export const selectAll = (graph: GraphDocument) =>
+  normalize({ nodeIds: graph.nodes.map(n => n.id), edgeIds: graph.edges.map(e => e.id) });
+
+// The element the properties inspector edits; null unless exactly one is selected
+export const getSingleSelection = (selection: Selection | null): { type: 'node' | 'edge', id: string } | null => {
+  if (!selection || selection.nodeIds.length + selection.edgeIds.length !== 1) return null;
+  return selection.nodeIds.length === 1
+    ? { type: 'node', id: selection.nodeIds[0] }
+    : { type: 'edge', id: selection.edgeIds[0] };
+};
+
+// Drops ids that no longer exist, e.g. after undo
+export const pruneSelection = (selection: Selection | null, graph: GraphDocument) => {
+  if (!selection) return null;
+  const nodeIds = new Set(graph.nodes.map(n => n.id));
+  const edgeIds = new Set(graph.edges.map(e => e.id));
+  return normalize({
+    nodeIds: selection.nodeIds.filter(id => nodeIds.has(id)),
+    edgeIds: selection.edgeIds.filter(id => edgeIds.has(id)),
+  });
+};
+
+// Nodes inside the box and the edges with both ends inside it
+export const selectInRect = (graph: GraphDocument, rect: { x1: number, y1: number, x2: number, y2: number }) => {
+  const [left, right] = [Math.min(rect.x1, rect.x2), Math.max(rect.x1, rect.x2)];
+  const [top, bottom] = [Math.min(rect.y1, rect.y2), Math.max(rect.y1, rect.y2)];
+  const inside = new Set(graph.nodes.filter(n => n.x >= left && n.x <= right && n.y >= top && n.y <= bottom).map(n => n.id));
+  return normalize({
+    nodeIds: [...inside],
+    edgeIds: graph.edges.filter(e => inside.has(e.source) && inside.has(e.target)).map(e => e.id),
+  });
+};
+
+// The document change that removes the selection; edges of removed nodes go with them
+export const deleteSelection = (graph: GraphDocument, selection: Selection): Partial<GraphDocument> => {
+  const nodeIds = new Set(selection.nodeIds);
+  const edgeIds = new Set(selection.edgeIds);
+  return {
+    nodes: graph.nodes.filter(n => !nodeIds.has(n.id)),
+    edges: graph.edges.filter(e => !edgeIds.has(e.id) && !nodeIds.has(e.source) && !nodeIds.has(e.target)),
+    startNodeId: nodeIds.has(graph.startNodeId) ? '' : graph.startNodeId,
+    endNodeId: nodeIds.has(graph.endNodeId) ? '' : graph.endNodeId,
+  };
+};
+
+export const describeSelection = (selection: Selection) => [
+  ...(selection.nodeIds.length > 0 ? [`${selection.nodeIds.length} 个节点`] : []),
+  ...(selection.edgeIds.length > 0 ? [`${selection.edgeIds.length} 条边`] : []),
+].join('、');
+
+/**
+ * The selected nodes together with every edge between them. Edges selected without both
+ * of their endpoints cannot stand alone in a pasted copy and are left out.
+ */
+export const copySelection = (graph: GraphDocument, selection: Selection): GraphClipboard | null => {
+  const nodeIds = new Set(selection.nodeIds);
+  const nodes = graph.nodes.filter(n => nodeIds.has(n.id));
+  if (nodes.length === 0) return null;
+  return { nodes, edges: graph.edges.filter(e => nodeIds.has(e.source) && nodeIds.has(e.target)) };
+};
+
+/**
+ * Adds a copy of the clipboard shifted by `offset`. New node ids continue the numeric
+ * `max + 1` sequence used when nodes are drawn by hand, so later hand-drawn nodes never
+ * collide with pasted ones; default labels (`v<id>`) follow the new ids.
+ */
+export const pasteClipboard = (graph: GraphDocument, clipboard: GraphClipboard, offset: number) => {
+  let nextId = graph.nodes.reduce((max, n) => Math.max(max, parseInt(n.id) || 0), 0);
+  const idMap = new Map<string, string>();
+  const nodes: Node[] = clipboard.nodes.map(n => {
+    const id = String(++nextId);
+    idMap.set(n.id, id);
+    const label = !n.label || n.label === `v${n.id}` ? `v${id}` : n.label;
+    return { ...n, id, label, x: n.x + offset, y: n.y + offset };
+  });
+  const stamp = Date.now();
+  const edges: Edge[] = clipboard.edges.map((e, i) => ({
+    ...e,
+    id: `e-${stamp}-${i}`,
+    source: idMap.get(e.source)!,
+    target: idMap.get(e.target)!,
+  }));
+  const selection: Selection = { nodeIds: nodes.map(n => n.id), edgeIds: edges.map(e => e.id) };
+  return { nodes: [...graph.nodes, ...nodes], edges: [...graph.edges, ...edges], selection };
+};
@@ -0,0 +1,107 @@
+import { Node, Edge, AlgorithmType, AlgorithmOptionValues, SharedView } from '../types';
+import { getAlgorithm, sanitizeOptions } from './algorithms';
+
+const HASH_PREFIX = '#g=';
+const LINK_VERSION = 1;
+
+/**
+ * Compact link payload. Nodes are [id, label?, x, y, pinned?] with the label left out when
+ * it is the default `v<id>`; edges refer to nodes by index and get fresh ids when decoded.
+ */
+interface LinkPayload {
+  v: number;
+  n: ([string, string | 0, number, number] | [string, string | 0, number, number, 1])[];
+  e: [number, number, number][];
+  s: number; // Index of the start node, -1 for none
+  t: number;
+  d: 0 | 1;
+  a: string;
+  o?: AlgorithmOptionValues;
+  i: number;
+}
+
+// base64url over UTF-8 so Chinese labels survive
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+export const encodeSharedView = ({ graph, algorithmId, options, stepIndex }: SharedView): string => {
+  const index = new Map(graph.nodes.map((n, i) => [n.id, i]));
+  const payload: LinkPayload = {
+    v: LINK_VERSION,
+    n: graph.nodes.map(n => {
+      const item: [string, string | 0, number, number] = [n.id, n.label && n.label !== `v${n.id}` ? n.label : 0, Math.round(n.x), Math.round(n.y)];
+      return n.pinned ? [...item, 1] : item;
+    }),
+    e: graph.edges.map(e => [index.get(e.source)!, index.get(e.target)!, e.weight]),
+    s: index.get(graph.startNodeId) ?? -1,
+    t: index.get(graph.endNodeId) ?? -1,
+    d: graph.directed ? 1 : 0,
+    a: algorithmId,
+    ...(options && Object.keys(options).length > 0 ? { o: options } : {}),
+    i: stepIndex,
+  };
+  return HASH_PREFIX + toBase64Url(JSON.stringify(payload));
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Returns null for a missing, damaged or unknown-version hash so the caller can fall back
+export const decodeSharedView = (hash: string): SharedView | null => {
+  if (!hash.startsWith(HASH_PREFIX)) return null;
+  let raw: LinkPayload;
+  try {
+    raw = JSON.parse(fromBase64Url(hash.slice(HASH_PREFIX.length)));
+  } catch {
+    return null;
+  }
+  if (!raw || raw.v !== LINK_VERSION || !Array.isArray(raw.n) || !Array.isArray(raw.e)) return null;
+
+  const nodes: Node[] = [];
+  const ids = new Set<string>();
+  for (const item of raw.n) {
+    if (!Array.isArray(item)) return null;
+    const [id, label, x, y, pinned] = item;
+    if (typeof id !== 'string' || ids.has(id) || !isFiniteNumber(x) || !isFiniteNumber(y)) return null;
+    ids.add(id);
+    nodes.push({ id, x, y, label: typeof label === 'string' ? label : `v${id}`, ...(pinned === 1 ? { pinned: true } : {}) });
+  }
+
+  // Only true array positions count; keys like "length" or "__proto__" also index an array
+  const isNodeIndex = (value: unknown): value is number =>
+    Number.isInteger(value) && (value as number) >= 0 && (value as number) < nodes.length;
+
+  const edges: Edge[] = [];
+  for (const item of raw.e) {
+    if (!Array.isArray(item)) return null;
+    const [s, t, weight] = item;
+    if (!isNodeIndex(s) || !isNodeIndex(t) || !isFiniteNumber(weight)) return null;
+    edges.push({ id: `e${edges.length + 1}`, source: nodes[s].id, target: nodes[t].id, weight });
+  }
+
+  if (!(Object.values(AlgorithmType) as string[]).includes(raw.a)) return null;
+  const algorithmId = raw.a as AlgorithmType;
+  return {
+    graph: {
+      nodes,
+      edges,
+      startNodeId: isNodeIndex(raw.s) ? nodes[raw.s].id : '',
+      endNodeId: isNodeIndex(raw.t) ? nodes[raw.t].id : '',
+      directed: raw.d === 1,
+    },
+    algorithmId,
+    ...(raw.o && typeof raw.o === 'object' ? { options: sanitizeOptions(getAlgorithm(algorithmId), raw.o) } : {}),
+    stepIndex: Number.isInteger(raw.i) && raw.i >= 0 ? raw.i : -1,
+  };
+};
+
+// The page URL with the given hash, suitable for copying
+export const buildShareUrl = (hash: string) => `${location.origin}${location.pathname}${location.search}${hash}`;
@@ -0,0 +1,43 @@
+import { Node, Edge, ResultPath, StepTrace, TraceRecorder } from '../types';
+import { runDoubleLabeling } from './dijkstra';
+import { enumerateParentPaths } from './paths';
+import { createTraceRecorder, getFinalStep } from './trace';
+
+/**
+ * Double labeling from `startNodeId` with no end node, so labelling continues until
+ * every reachable node is permanent. A closing step lists the tree path to each
+ * destination in `paths`.
+ */
+export const runShortestPathTree = (
+  nodes: Node[],
+  edges: Edge[],
+  startNodeId: string,
+  directed: boolean = false,
+  trace: TraceRecorder = createTraceRecorder()
+): StepTrace => {
+  // The closing step is appended to the same recorder as the labeling steps and changes no label
+  const labeling = runDoubleLabeling(nodes, edges, startNodeId, '', directed, false, trace);
+  const last = getFinalStep(labeling);
+  if (!last) return labeling;
+
+  const paths: ResultPath[] = [];
+  for (const node of nodes) {
+    const state = last.nodeStates[node.id];
+    if (node.id === startNodeId || state?.status !== 'permanent') continue;
+    const [path] = enumerateParentPaths(last.nodeStates, startNodeId, node.id, 1);
+    if (path) paths.push({ ...path, cost: state.distance });
+  }
+  paths.sort((a, b) => a.cost - b.cost);
+
+  const unreachable = nodes.length - 1 - paths.length;
+  const startLabel = nodes.find(n => n.id === startNodeId)?.label ?? startNodeId;
+  trace.push({
+    ...last,
+    stepIndex: trace.length(),
+    description: `最短路树构建完成：从 ${startLabel} 可到达 ${paths.length} 个节点${unreachable > 0 ? `，${unreachable} 个节点不可达` : ''}。图中蓝色边即为最短路树，下表列出到每个目的地的距离与路径。`,
+    activeNodeId: null,
+    checkingEdgeId: null,
+    paths,
+  }, []);
+  return trace.finish();
+};
@@ -0,0 +1,232 @@
+import { CanvasScene } from '../types';
+import { getEdgeShape, NODE_RADIUS } from './geometry';
+import {
+  getArrowMarkers, getNodeColor, getNodeStroke, getNodeStrokeWidth, getNodeLabelText, getBackwardLabelText, getEdgeStyle,
+} from './canvasStyle';
+
+/**
+ * Standalone SVG drawings of a canvas scene. Everything GraphCanvas takes from Tailwind
+ * classes is written out as attributes, and the HTML label badges of its foreignObject
+ * become native rect + text, so the files open in any viewer and rasterise cleanly.
+ */
+
+const FONT_FAMILY = 'system-ui, -apple-system, "PingFang SC", "Microsoft YaHei", sans-serif';
+const BACKGROUND = '#f8fafc'; // slate-50, as behind the canvas
+const PADDING = 24;
+const CAPTION_SIZE = 14;
+const CAPTION_LINE = 20;
+
+// Label badge colours (bg-white / bg-blue-100 / bg-violet-50 and their text and border colours)
+const BADGE = {
+  temporary: { fill: '#ffffff', stroke: '#f1f5f9', text: '#334155' },
+  permanent: { fill: '#dbeafe', stroke: '#f1f5f9', text: '#1e40af' },
+  backward: { fill: '#f5f3ff', stroke: '#ede9fe', text: '#6d28d9' },
+};
+
+export interface SvgFrame {
+  scene: CanvasScene;
+  caption?: string; // Drawn above the graph, e.g. the step description
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Rough text width without a DOM: CJK glyphs are about square, Latin glyphs about 0.6 em
+const textWidth = (text: string, fontSize: number) =>
+  Array.from(text).reduce((w, c) => w + (c.charCodeAt(0) > 0x2e80 ? fontSize : fontSize * 0.6), 0);
+
+const wrapText = (text: string, fontSize: number, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const c of Array.from(text)) {
+    if (line && textWidth(line + c, fontSize) > maxWidth) {
+      lines.push(line);
+      line = '';
+    }
+    line += c;
+  }
+  return line ? [...lines, line] : lines;
+};
+
+const round = (v: number) => Math.round(v * 10) / 10;
+
+interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const labelBadgeWidth = (text: string) => textWidth(text, 12) + 16;
+
+// Area covered by the drawings of all frames, so an animation keeps one viewBox
+const getBounds = (frames: SvgFrame[], showLabels: boolean): Bounds => {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  frames.forEach(({ scene }) => {
+    scene.nodes.forEach(node => {
+      const badge = showLabels
+        ? Math.max(labelBadgeWidth(getNodeLabelText(scene, node) ?? ''), labelBadgeWidth(getBackwardLabelText(scene, node) ?? ''))
+        : 0;
+      minX = Math.min(minX, node.x - 30);
+      minY = Math.min(minY, node.y - 30);
+      maxX = Math.max(maxX, node.x + (showLabels ? 25 + badge : 30));
+      maxY = Math.max(maxY, node.y + (showLabels && scene.stepState?.backwardStates ? 40 : 30));
+    });
+    // Self-loops reach out past their node; their weight label sits at the tip
+    scene.edges.filter(e => e.source === e.target).forEach(edge => {
+      const node = scene.nodes.find(n => n.id === edge.source);
+      if (!node) return;
+      const { labelX, labelY } = getEdgeShape(edge, scene.edges, node, node, false);
+      minX = Math.min(minX, labelX - 20);
+      minY = Math.min(minY, labelY - 20);
+      maxX = Math.max(maxX, labelX + 20);
+      maxY = Math.max(maxY, labelY + 20);
+    });
+  });
+  if (minX === Infinity) return { x: 0, y: 0, width: 400, height: 300 };
+  return { x: minX - PADDING, y: minY - PADDING, width: maxX - minX + PADDING * 2, height: maxY - minY + PADDING * 2 };
+};
+
+const renderBadge = (x: number, y: number, text: string, colors: { fill: string, stroke: string, text: string }) =>
+  `<rect x="${x}" y="${y}" width="${round(labelBadgeWidth(text))}" height="22" rx="4" fill="${colors.fill}" stroke="${colors.stroke}"/>` +
+  `<text x="${x + 8}" y="${y + 15}" font-size="12" fill="${colors.text}">${escapeXml(text)}</text>`;
+
+// The graph itself: edges, nodes with their label badges, then edge weights on top
+const renderScene = (scene: CanvasScene, showLabels: boolean): string => {
+  const { nodes, edges, directed, stepState, pathHighlights } = scene;
+  const posOf = (id: string) => nodes.find(n => n.id === id) ?? { x: 0, y: 0 };
+  const parts: string[] = [];
+
+  edges.forEach(edge => {
+    const style = getEdgeStyle(scene, edge);
+    const { path } = getEdgeShape(edge, edges, posOf(edge.source), posOf(edge.target), directed);
+    parts.push(
+      `<path d="${path}" fill="none" stroke="${style.stroke}" stroke-width="${style.strokeWidth}" opacity="${style.opacity}"` +
+      `${style.dash ? ` stroke-dasharray="${style.dash}"` : ''}${directed ? ` marker-end="url(#${style.marker})"` : ''}/>`
+    );
+  });
+
+  nodes.forEach(node => {
+    const isActive = stepState?.activeNodeId === node.id;
+    const isPermanent = stepState?.nodeStates[node.id]?.status === 'permanent';
+    const highlight = pathHighlights.find(h => h.nodeIds.includes(node.id));
+    const dimmed = stepState && !stepState.nodeStates[node.id];
+    const group: string[] = [];
+    if (highlight) group.push(`<circle r="26" fill="none" stroke="${highlight.color}" stroke-width="3" opacity="0.8"/>`);
+    group.push(
+      `<circle r="${isActive ? NODE_RADIUS + 4 : NODE_RADIUS}" fill="${getNodeColor(scene, node.id)}" ` +
+      `stroke="${getNodeStroke(scene, node.id)}" stroke-width="${getNodeStrokeWidth(scene, node.id)}"/>`,
+      `<text text-anchor="middle" dy="5" fill="#ffffff" font-size="14" font-weight="bold">${escapeXml(node.label ?? '')}</text>`
+    );
+    if (showLabels) {
+      const label = getNodeLabelText(scene, node);
+      if (label) group.push(renderBadge(25, -15, label, isPermanent ? BADGE.permanent : BADGE.temporary));
+      const backward = getBackwardLabelText(scene, node);
+      if (backward) group.push(renderBadge(25, 9, backward, BADGE.backward));
+    }
+    parts.push(`<g transform="translate(${round(node.x)}, ${round(node.y)})"${dimmed ? ' opacity="0.5"' : ''}>${group.join('')}</g>`);
+  });
+
+  edges.forEach(edge => {
+    const { labelX, labelY } = getEdgeShape(edge, edges, posOf(edge.source), posOf(edge.target), false);
+    const text = String(edge.weight);
+    const width = Math.max(30, textWidth(text, 14) + 10);
+    parts.push(
+      `<g transform="translate(${round(labelX)}, ${round(labelY)})">` +
+      `<rect x="${round(-width / 2)}" y="-12" width="${round(width)}" height="24" rx="4" fill="#ffffff" stroke="#e2e8f0"/>` +
+      `<text text-anchor="middle" dy="4" font-size="14" font-weight="bold" fill="#334155">${escapeXml(text)}</text></g>`
+    );
+  });
+
+  return parts.join('\n');
+};
+
+const renderMarkers = (frames: SvgFrame[]) => {
+  const markers = new Map<string, string>();
+  frames.forEach(({ scene }) => getArrowMarkers(scene).forEach(m => markers.set(m.id, m.fill)));
+  return [...markers].map(([id, fill]) =>
+    `<marker id="${id}" markerWidth="12" markerHeight="9" refX="10" refY="4.5" orient="auto" markerUnits="userSpaceOnUse">` +
+    `<polygon points="0 0, 12 4.5, 0 9" fill="${fill}"/></marker>`
+  ).join('\n');
+};
+
+// Caption lines wrapped to the drawing width; they sit in a band above the graph
+const captionLines = (frame: SvgFrame, width: number) =>
+  frame.caption ? wrapText(frame.caption, CAPTION_SIZE, width - PADDING * 2) : [];
+
+const renderCaption = (lines: string[], bounds: Bounds) =>
+  lines.map((line, i) =>
+    `<text x="${round(bounds.x + PADDING)}" y="${round(bounds.y + PADDING + CAPTION_SIZE + i * CAPTION_LINE)}" font-size="${CAPTION_SIZE}" fill="#475569">${escapeXml(line)}</text>`
+  ).join('');
+
+const wrapDocument = (bounds: Bounds, captionHeight: number, defs: string, body: string) => {
+  const x = round(bounds.x);
+  const y = round(bounds.y - captionHeight);
+  const width = round(bounds.width);
+  const height = round(bounds.height + captionHeight);
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${x} ${y} ${width} ${height}" font-family='${FONT_FAMILY}'>`,
+    `<defs>\n${defs}\n</defs>`,
+    `<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="${BACKGROUND}"/>`,
+    body,
+    '</svg>',
+    '',
+  ].join('\n');
+};
+
+export const renderSvg = (frame: SvgFrame, showLabels: boolean): string => {
+  const bounds = getBounds([frame], showLabels);
+  const lines = captionLines(frame, bounds.width);
+  const captionHeight = lines.length * CAPTION_LINE;
+  const captionBounds = { ...bounds, y: bounds.y - captionHeight };
+  return wrapDocument(bounds, captionHeight, renderMarkers([frame]), renderCaption(lines, captionBounds) + '\n' + renderScene(frame.scene, showLabels));
+};
+
+/**
+ * One SVG that shows the frames in turn and loops, using SMIL so it plays when opened
+ * in a browser or inserted into slides. Each frame is a group that is only visible
+ * during its own slot of the cycle.
+ */
+export const renderAnimatedSvg = (frames: SvgFrame[], showLabels: boolean, secondsPerFrame: number): string => {
+  const bounds = getBounds(frames, showLabels);
+  const wrapped = frames.map(frame => captionLines(frame, bounds.width));
+  const captionHeight = Math.max(0, ...wrapped.map(lines => lines.length)) * CAPTION_LINE;
+  const captionBounds = { ...bounds, y: bounds.y - captionHeight };
+  const total = frames.length * secondsPerFrame;
+
+  const groups = frames.map((frame, i) => {
+    const from = i / frames.length;
+    const to = (i + 1) / frames.length;
+    // Discrete keyTimes: hidden until the slot starts, visible during it, hidden after
+    const values = [...(i > 0 ? ['hidden'] : []), 'visible', ...(i < frames.length - 1 ? ['hidden'] : [])];
+    const keyTimes = [...(i > 0 ? [0] : []), from, ...(i < frames.length - 1 ? [to] : [])];
+    return `<g visibility="${i === 0 ? 'visible' : 'hidden'}">` +
+      `<animate attributeName="visibility" calcMode="discrete" values="${values.join(';')}" keyTimes="${keyTimes.map(t => round(t * 1e4) / 1e4).join(';')}" dur="${total}s" repeatCount="indefinite"/>\n` +
+      renderCaption(wrapped[i], captionBounds) + '\n' + renderScene(frame.scene, showLabels) + '</g>';
+  });
+  return wrapDocument(bounds, captionHeight, renderMarkers(frames), groups.join('\n'));
+};
+
+// Rasterises an SVG document at `scale` × its own size
+export const svgToPng = (svg: string, scale = 2): Promise<Blob> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }));
+  const image = new Image();
+  image.onload = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(image.width * scale);
+    canvas.height = Math.ceil(image.height * scale);
+    const context = canvas.getContext('2d')!;
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0);
+    URL.revokeObjectURL(url);
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('无法生成 PNG'))), 'image/png');
+  };
+  image.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error('无法加载 SVG'));
+  };
+  image.src = url;
+});
@@ -0,0 +1,198 @@
+import {
+  AlgorithmStep, AlgorithmNodeState, StepTrace, TraceFrame, TraceKeyframe, TraceRecorder,
+  DistanceMatrix, MatrixCell, MatrixFrame, MatrixValues,
+} from '../types';
+
+// A full copy of the labels is kept every this many steps; other steps store changes only
+export const KEYFRAME_INTERVAL = 64;
+
+type Labels = Record<string, AlgorithmNodeState>;
+
+export const EMPTY_TRACE: StepTrace = { length: 0, frames: [], keyframes: [], keyframeInterval: KEYFRAME_INTERVAL };
+
+const sameValue = (a: unknown, b: unknown) =>
+  a === b ||
+  (Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((v, i) => v === b[i]));
+
+const sameState = (a: AlgorithmNodeState | undefined, b: AlgorithmNodeState) => {
+  if (!a) return false;
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof AlgorithmNodeState>;
+  for (const key of keys) {
+    if (!sameValue(a[key], b[key])) return false;
+  }
+  return true;
+};
+
+// Recorded states are shared between frames and rebuilt steps, so they are copied once
+// here and never mutated afterwards
+const copyState = (state: AlgorithmNodeState): AlgorithmNodeState => ({
+  ...state,
+  ...(state.parents ? { parents: [...state.parents] } : {}),
+  ...(state.parentEdges ? { parentEdges: [...state.parentEdges] } : {}),
+});
+
+// Labels in `next` that differ from `prev`, looking only at `ids` when given; `prev` is
+// updated in place
+const diffLabels = (prev: Labels, next: Labels, ids: Iterable<string> = Object.keys(next)): Labels => {
+  const changes: Labels = {};
+  for (const id of ids) {
+    if (!(id in next) || sameState(prev[id], next[id])) continue;
+    changes[id] = copyState(next[id]);
+    prev[id] = changes[id];
+  }
+  return changes;
+};
+
+const copyMatrix = (matrix: MatrixValues): MatrixValues => ({
+  nodeIds: [...matrix.nodeIds],
+  dist: matrix.dist.map(row => [...row]),
+  next: matrix.next.map(row => [...row]),
+});
+
+const applyCells = (matrix: MatrixValues, cells: MatrixCell[]) => {
+  for (const [i, j, d, hop] of cells) {
+    matrix.dist[i][j] = d;
+    matrix.next[i][j] = hop;
+  }
+};
+
+interface TraceState {
+  nodeStates: Labels;
+  backwardStates?: Labels;
+  permanentNodes: string[];
+  matrix?: MatrixValues; // Updated in place, so it is copied whenever it leaves the state
+}
+
+// Reads the `changed` cells off a live matrix; the whole matrix is stored the first time
+const recordMatrix = (state: TraceState, matrix: DistanceMatrix): MatrixFrame => {
+  const cells = matrix.changed.map(([i, j]): MatrixCell => [i, j, matrix.dist[i][j], matrix.next[i][j]]);
+  if (state.matrix) {
+    applyCells(state.matrix, cells);
+    return { pivot: matrix.pivot, cells };
+  }
+  state.matrix = copyMatrix(matrix);
+  return { pivot: matrix.pivot, cells, full: copyMatrix(matrix) };
+};
+
+const applyFrame = (state: TraceState, frame: TraceFrame) => {
+  Object.assign(state.nodeStates, frame.nodeChanges);
+  if (frame.backwardChanges) {
+    state.backwardStates = Object.assign(state.backwardStates ?? {}, frame.backwardChanges);
+  }
+  if (frame.permanentNodes) state.permanentNodes = [...frame.permanentNodes];
+  else if (frame.permanentAppended) state.permanentNodes.push(...frame.permanentAppended);
+  if (frame.matrix?.full) state.matrix = copyMatrix(frame.matrix.full);
+  else if (frame.matrix && state.matrix) applyCells(state.matrix, frame.matrix.cells);
+};
+
+const fromKeyframe = (keyframe: TraceKeyframe): TraceState => ({
+  nodeStates: { ...keyframe.nodeStates },
+  ...(keyframe.backwardStates ? { backwardStates: { ...keyframe.backwardStates } } : {}),
+  permanentNodes: [...keyframe.permanentNodes],
+  ...(keyframe.matrix ? { matrix: copyMatrix(keyframe.matrix) } : {}),
+});
+
+const toKeyframe = (state: TraceState): TraceKeyframe => ({
+  nodeStates: { ...state.nodeStates },
+  ...(state.backwardStates ? { backwardStates: { ...state.backwardStates } } : {}),
+  permanentNodes: [...state.permanentNodes],
+  ...(state.matrix ? { matrix: copyMatrix(state.matrix) } : {}),
+});
+
+/**
+ * Collects the steps of a run as a delta-encoded trace. Runners pass their live label
+ * maps to `push` together with the ids they touched since the previous push, so a step
+ * costs time in the labels it changed rather than in the size of the graph; the first
+ * step always compares every label. A distance matrix is recorded the same way: the
+ * frame keeps the `changed` cells and only keyframes hold the whole matrix. `onPush` sees every frame as it is recorded, which
+ * lets a worker stream the trace.
+ */
+export const createTraceRecorder = (
+  onPush?: (frame: TraceFrame, keyframe: TraceKeyframe | null, step: AlgorithmStep) => void
+): TraceRecorder => {
+  const frames: TraceFrame[] = [];
+  const keyframes: TraceKeyframe[] = [];
+  const state: TraceState = { nodeStates: {}, permanentNodes: [] };
+
+  return {
+    push: (step, touched) => {
+      const { nodeStates, backwardStates, permanentNodes, matrix, ...meta } = step;
+      const ids = frames.length > 0 && touched ? [...touched] : undefined;
+      const frame: TraceFrame = { meta, nodeChanges: diffLabels(state.nodeStates, nodeStates, ids) };
+      if (backwardStates) {
+        // A map appearing for the first time is compared in full
+        const firstBackward = !state.backwardStates;
+        state.backwardStates = state.backwardStates ?? {};
+        frame.backwardChanges = diffLabels(state.backwardStates, backwardStates, firstBackward ? undefined : ids);
+      }
+
+      const prevPermanent = state.permanentNodes;
+      const extendsPrev = permanentNodes.length >= prevPermanent.length &&
+        prevPermanent.every((id, i) => permanentNodes[i] === id);
+      if (!extendsPrev) frame.permanentNodes = [...permanentNodes];
+      else if (permanentNodes.length > prevPermanent.length) frame.permanentAppended = permanentNodes.slice(prevPermanent.length);
+      state.permanentNodes = [...permanentNodes];
+      if (matrix) frame.matrix = recordMatrix(state, matrix);
+
+      const keyframe = frames.length % KEYFRAME_INTERVAL === 0 ? toKeyframe(state) : null;
+      if (keyframe) keyframes.push(keyframe);
+      frames.push(frame);
+      onPush?.(frame, keyframe, step);
+    },
+    length: () => frames.length,
+    finish: () => ({ length: frames.length, frames: [...frames], keyframes: [...keyframes], keyframeInterval: KEYFRAME_INTERVAL }),
+  };
+};
+
+// A trace extended by frames that arrived later, e.g. streamed from a worker
+export const appendToTrace = (trace: StepTrace, frames: TraceFrame[], keyframes: TraceKeyframe[]): StepTrace => ({
+  ...trace,
+  length: trace.length + frames.length,
+  frames: trace.frames.concat(frames),
+  keyframes: trace.keyframes.concat(keyframes),
+});
+
+// Last rebuilt position per trace, so stepping forward only replays one frame
+const cursors = new WeakMap<StepTrace, { index: number; state: TraceState; step: AlgorithmStep }>();
+
+/**
+ * Rebuilds the full step at `index` from the nearest keyframe (or the previously
+ * requested step, when that is closer) by replaying the frames in between.
+ */
+export const getStep = (trace: StepTrace, index: number): AlgorithmStep | null => {
+  if (index < 0 || index >= trace.length) return null;
+  const cursor = cursors.get(trace);
+  if (cursor?.index === index) return cursor.step;
+
+  const keyIndex = Math.floor(index / trace.keyframeInterval);
+  const keyStep = keyIndex * trace.keyframeInterval;
+  let state: TraceState;
+  let from: number;
+  if (cursor && cursor.index < index && cursor.index >= keyStep) {
+    state = cursor.state;
+    from = cursor.index + 1;
+  } else {
+    state = fromKeyframe(trace.keyframes[keyIndex]);
+    from = keyStep + 1;
+  }
+  for (let i = from; i <= index; i++) applyFrame(state, trace.frames[i]);
+
+  const frame = trace.frames[index];
+  const step: AlgorithmStep = {
+    ...frame.meta,
+    nodeStates: { ...state.nodeStates },
+    ...(frame.backwardChanges && state.backwardStates ? { backwardStates: { ...state.backwardStates } } : {}),
+    permanentNodes: [...state.permanentNodes],
+    ...(frame.matrix && state.matrix ? {
+      matrix: {
+        ...copyMatrix(state.matrix),
+        changed: frame.matrix.cells.map(([i, j]): [number, number] => [i, j]),
+        pivot: frame.matrix.pivot,
+      },
+    } : {}),
+  };
+  cursors.set(trace, { index, state, step });
+  return step;
+};
+
+export const getFinalStep = (trace: StepTrace): AlgorithmStep | null => getStep(trace, trace.length - 1);
@@ -0,0 +1,134 @@
+import { Node, AlgorithmNodeState, StepTrace, TraceExportFormat } from '../types';
+import { getStep } from './trace';
+
+export const TRACE_EXPORT_FORMATS: { id: TraceExportFormat, label: string, extension: string, mimeType: string }[] = [
+  { id: 'latex', label: 'LaTeX', extension: 'tex', mimeType: 'application/x-tex' },
+  { id: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  { id: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+];
+
+interface TableauCell {
+  text: string; // '' once the node was made permanent in an earlier row
+  permanent: boolean; // The node made permanent in this row
+}
+
+interface TableauRow {
+  settledId: string | null;
+  cells: TableauCell[];
+}
+
+const fmt = (v: number) => (v === Infinity ? '∞' : `${Math.round(v * 100) / 100}`);
+
+const labelText = (state: AlgorithmNodeState | undefined, nodeId: string, labelOf: (id: string) => string) => {
+  if (!state || state.distance === Infinity) return '[∞, -]';
+  const parents = [...new Set(state.parents ?? (state.parent ? [state.parent] : []))].filter(p => p !== nodeId);
+  return `[${fmt(state.distance)}, ${parents.length === 0 ? '-' : parents.map(labelOf).join('、')}]`;
+};
+
+/**
+ * One row per permanent-label iteration: row k shows every label after the k-th node was
+ * made permanent and its neighbours were updated, i.e. the last step before the next node
+ * becomes permanent. Row 0 is the initial labelling. As in the textbook table, a node's
+ * cell is left empty in the rows after the one that made it permanent.
+ */
+const buildTableau = (trace: StepTrace, nodes: Node[]): TableauRow[] => {
+  const labelOf = (id: string) => nodes.find(n => n.id === id)?.label ?? id;
+  const lastStepPerCount: number[] = [];
+  for (let i = 0; i < trace.length; i++) {
+    const count = getStep(trace, i)!.permanentNodes.length;
+    lastStepPerCount[count] = i;
+  }
+
+  const rows: TableauRow[] = [];
+  lastStepPerCount.forEach((stepIndex, count) => {
+    const step = getStep(trace, stepIndex)!;
+    const settledId = count > 0 ? step.permanentNodes[count - 1] : null;
+    const earlier = new Set(step.permanentNodes.slice(0, Math.max(0, count - 1)));
+    rows.push({
+      settledId,
+      cells: nodes.map(node => (earlier.has(node.id)
+        ? { text: '', permanent: false }
+        : { text: labelText(step.nodeStates[node.id], node.id, labelOf), permanent: node.id === settledId })),
+    });
+  });
+  return rows;
+};
+
+// --- Format helpers ---
+
+const LATEX_SPECIALS: Record<string, string> = {
+  '\\': '\\textbackslash{}', '&': '\\&', '%': '\\%', '$': '\\$', '#': '\\#',
+  '_': '\\_', '{': '\\{', '}': '\\}', '~': '\\textasciitilde{}', '^': '\\textasciicircum{}',
+};
+
+const latexEscape = (text: string) => text.replace(/[\\&%$#_{}~^]/g, c => LATEX_SPECIALS[c]).replace(/∞/g, '$\\infty$');
+
+const markdownEscape = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+const csvCell = (text: string) => (/[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+
+// Header row followed by `rows`; strong cells are bold in LaTeX and Markdown and starred in CSV
+const renderTable = (format: TraceExportFormat, header: string[], rows: { text: string, strong: boolean }[][], caption: string) => {
+  if (format === 'csv') {
+    return [header, ...rows.map(row => row.map(cell => (cell.strong ? `${cell.text}*` : cell.text)))]
+      .map(row => row.map(csvCell).join(','))
+      .join('\n') + '\n';
+  }
+  if (format === 'markdown') {
+    const line = (cells: string[]) => `| ${cells.join(' | ')} |`;
+    return [
+      `**${caption}**`,
+      '',
+      line(header.map(markdownEscape)),
+      line(header.map(() => '---')),
+      ...rows.map(row => line(row.map(cell => (cell.strong && cell.text ? `**${markdownEscape(cell.text)}**` : markdownEscape(cell.text))))),
+      '',
+    ].join('\n');
+  }
+  return [
+    '% 含中文，请使用 XeLaTeX 并加载 ctex 宏包',
+    '\\begin{table}[htbp]',
+    '  \\centering',
+    `  \\caption{${latexEscape(caption)}}`,
+    `  \\begin{tabular}{cc|${'c'.repeat(header.length - 2)}}`,
+    '    \\hline',
+    `    ${header.map(latexEscape).join(' & ')} \\\\`,
+    '    \\hline',
+    ...rows.map(row => `    ${row.map(cell => (cell.strong && cell.text ? `\\textbf{${latexEscape(cell.text)}}` : latexEscape(cell.text))).join(' & ')} \\\\`),
+    '    \\hline',
+    '  \\end{tabular}',
+    '\\end{table}',
+    '',
+  ].join('\n');
+};
+
+export const exportTableau = (trace: StepTrace, nodes: Node[], format: TraceExportFormat, title: string): string => {
+  const labelOf = (id: string) => nodes.find(n => n.id === id)?.label ?? id;
+  const header = ['k', '永久标号', ...nodes.map(n => n.label ?? n.id)];
+  const rows = buildTableau(trace, nodes).map((row, k) => [
+    { text: String(k), strong: false },
+    { text: row.settledId ? labelOf(row.settledId) : '-', strong: false },
+    ...row.cells.map(cell => ({ text: cell.text, strong: cell.permanent })),
+  ]);
+  const caption = `${title}迭代表（${format === 'csv' ? '带 * 者' : '加粗者'}为本轮获得的永久标号 [d, p]）`;
+  return renderTable(format, header, rows, caption);
+};
+
+// The per-step descriptions shown in the step list
+export const exportStepDescriptions = (trace: StepTrace, format: TraceExportFormat, title: string): string => {
+  const descriptions = trace.frames.map(frame => frame.meta.description);
+  if (format === 'csv') {
+    return ['步骤,说明', ...descriptions.map((d, i) => `${i + 1},${csvCell(d)}`)].join('\n') + '\n';
+  }
+  if (format === 'markdown') {
+    return [`**${title}执行步骤**`, '', ...descriptions.map((d, i) => `${i + 1}. ${d.replace(/\n/g, ' ')}`), ''].join('\n');
+  }
+  return [
+    '% 含中文，请使用 XeLaTeX 并加载 ctex 宏包',
+    `\\paragraph{${latexEscape(title)}执行步骤}`,
+    '\\begin{enumerate}',
+    ...descriptions.map(d => `  \\item ${latexEscape(d)}`),
+    '\\end{enumerate}',
+    '',
+  ].join('\n');
+};
@@ -0,0 +1,65 @@
+import { Node, Viewport } from '../types';
+
+export const MIN_ZOOM = 0.2;
+export const MAX_ZOOM = 4;
+
+export const IDENTITY_VIEW: Viewport = { x: 0, y: 0, k: 1 };
+
+// Margin kept around nodes so circles and the label badges to their right stay visible
+const CONTENT_MARGIN = { left: 40, top: 40, right: 160, bottom: 50 };
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const clampZoom = (k: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, k));
+
+export const getContentBounds = (nodes: Node[]): Rect | null => {
+  if (nodes.length === 0) return null;
+  const xs = nodes.map(n => n.x);
+  const ys = nodes.map(n => n.y);
+  const x = Math.min(...xs) - CONTENT_MARGIN.left;
+  const y = Math.min(...ys) - CONTENT_MARGIN.top;
+  return {
+    x,
+    y,
+    width: Math.max(...xs) + CONTENT_MARGIN.right - x,
+    height: Math.max(...ys) + CONTENT_MARGIN.bottom - y,
+  };
+};
+
+// The part of the graph plane visible in a canvas of the given size
+export const getVisibleRect = (view: Viewport, width: number, height: number): Rect => ({
+  x: -view.x / view.k,
+  y: -view.y / view.k,
+  width: width / view.k,
+  height: height / view.k,
+});
+
+// Zooms by `factor` keeping the graph point under screen position (px, py) in place
+export const zoomAt = (view: Viewport, px: number, py: number, factor: number): Viewport => {
+  const k = clampZoom(view.k * factor);
+  return { k, x: px - ((px - view.x) * k) / view.k, y: py - ((py - view.y) * k) / view.k };
+};
+
+// Shows all nodes, never enlarging past 100% so small graphs keep their drawn size
+export const fitToContent = (nodes: Node[], width: number, height: number): Viewport => {
+  const bounds = getContentBounds(nodes);
+  if (!bounds || width <= 0 || height <= 0) return IDENTITY_VIEW;
+  const k = clampZoom(Math.min(1, width / bounds.width, height / bounds.height));
+  return {
+    k,
+    x: (width - bounds.width * k) / 2 - bounds.x * k,
+    y: (height - bounds.height * k) / 2 - bounds.y * k,
+  };
+};
+
+// Moves the view so graph point (gx, gy) is at the centre of the canvas
+export const centerOn = (view: Viewport, gx: number, gy: number, width: number, height: number): Viewport => ({
+  k: view.k,
+  x: width / 2 - gx * view.k,
+  y: height / 2 - gy * view.k,
+});
@@ -0,0 +1,130 @@
+import { Node, Edge, StepTrace, TraceRecorder, AlgorithmNodeState, ResultPath } from '../types';
+import { findShortestPath } from './dijkstra';
+import { createTraceRecorder } from './trace';
+
+export const DEFAULT_K = 3;
+
+const pathKey = (path: ResultPath) => `${path.nodeIds.join('>')}|${path.edgeIds.join(',')}`;
+
+export const runYenKShortest = (
+  nodes: Node[],
+  edges: Edge[],
+  startNodeId: string,
+  endNodeId: string,
+  directed: boolean = false,
+  k: number = DEFAULT_K,
+  trace: TraceRecorder = createTraceRecorder()
+): StepTrace => {
+  const labelOf = (id: string) => nodes.find(n => n.id === id)?.label ?? id;
+  const weightOf = (edgeId: string) => edges.find(e => e.id === edgeId)?.weight ?? 0;
+  const describe = (path: ResultPath) => `${path.nodeIds.map(labelOf).join(' → ')}（长度 ${path.cost}）`;
+
+  const accepted: ResultPath[] = [];
+  const candidates: ResultPath[] = [];
+
+  // Labels on the canvas trace the most recently accepted path; only the nodes of the
+  // previously shown path and the new one change between steps
+  const unlabelled = (): AlgorithmNodeState => ({ distance: Infinity, parent: null, parentEdge: null, status: 'unvisited' });
+  const nodeStates: Record<string, AlgorithmNodeState> = {};
+  nodes.forEach(n => { nodeStates[n.id] = unlabelled(); });
+  let shown: ResultPath | null = null;
+
+  const showPath = (path: ResultPath | null) => {
+    const touched = new Set(shown?.nodeIds ?? []);
+    touched.forEach(id => { nodeStates[id] = unlabelled(); });
+    let dist = 0;
+    path?.nodeIds.forEach((id, i) => {
+      if (i > 0) dist += weightOf(path.edgeIds[i - 1]);
+      nodeStates[id] = {
+        distance: dist,
+        parent: i === 0 ? id : path.nodeIds[i - 1],
+        parentEdge: i === 0 ? null : path.edgeIds[i - 1],
+        status: 'permanent',
+      };
+      touched.add(id);
+    });
+    shown = path;
+    return touched;
+  };
+
+  const snapshot = (desc: string, active: string | null, current: ResultPath | null) => {
+    const touched = current === shown ? [] : showPath(current);
+    trace.push({
+      stepIndex: trace.length(),
+      description: desc,
+      activeNodeId: active,
+      checkingEdgeId: null,
+      nodeStates,
+      permanentNodes: current ? [...current.nodeIds] : [],
+      paths: accepted.map(p => ({ ...p })),
+    }, touched);
+  };
+
+  snapshot(`初始化：用双标号法求出第 1 短路，再以其上每个节点为偏离点构造候选路径，共求 ${k} 条。`, null, null);
+
+  const first = findShortestPath(nodes, edges, startNodeId, endNodeId, directed);
+  if (!first) {
+    snapshot(`终点 ${labelOf(endNodeId)} 不可达，算法结束。`, null, null);
+    return trace.finish();
+  }
+  accepted.push(first);
+  snapshot(`第 1 短路：${describe(first)}。`, endNodeId, first);
+
+  while (accepted.length < k) {
+    const prev = accepted[accepted.length - 1];
+
+    for (let i = 0; i < prev.nodeIds.length - 1; i++) {
+      const spurNode = prev.nodeIds[i];
+      const rootNodes = prev.nodeIds.slice(0, i + 1);
+      const rootEdges = prev.edgeIds.slice(0, i);
+
+      // Block the next edge of every accepted path sharing this root, and the root itself
+      const removedEdges = new Set<string>();
+      for (const p of accepted) {
+        const sameRoot =
+          p.nodeIds.slice(0, i + 1).join('>') === rootNodes.join('>') &&
+          p.edgeIds.slice(0, i).join(',') === rootEdges.join(',');
+        if (sameRoot && p.edgeIds[i]) removedEdges.add(p.edgeIds[i]);
+      }
+      const removedNodes = new Set(rootNodes.slice(0, -1));
+
+      const spur = findShortestPath(
+        nodes.filter(n => !removedNodes.has(n.id)),
+        edges.filter(e => !removedEdges.has(e.id) && !removedNodes.has(e.source) && !removedNodes.has(e.target)),
+        spurNode,
+        endNodeId,
+        directed
+      );
+      if (!spur) continue;
+
+      const candidate: ResultPath = {
+        nodeIds: [...rootNodes, ...spur.nodeIds.slice(1)],
+        edgeIds: [...rootEdges, ...spur.edgeIds],
+        cost: rootEdges.reduce((sum, id) => sum + weightOf(id), 0) + spur.cost,
+      };
+      const key = pathKey(candidate);
+      if (accepted.some(p => pathKey(p) === key) || candidates.some(p => pathKey(p) === key)) continue;
+
+      candidates.push(candidate);
+      snapshot(
+        `以 ${labelOf(spurNode)} 为偏离点：删去已选路径在此处的后续边${removedNodes.size > 0 ? `及根路径节点 ${[...removedNodes].map(labelOf).join('、')}` : ''}，得到候选路径 ${describe(candidate)}。`,
+        spurNode,
+        prev
+      );
+    }
+
+    if (candidates.length === 0) {
+      snapshot(`没有更多候选路径，共找到 ${accepted.length} 条无环路径。`, null, prev);
+      return trace.finish();
+    }
+
+    // Shortest candidate first; fewer hops breaks ties
+    candidates.sort((a, b) => a.cost - b.cost || a.nodeIds.length - b.nodeIds.length);
+    const next = candidates.shift()!;
+    accepted.push(next);
+    snapshot(`从 ${candidates.length + 1} 条候选中选出第 ${accepted.length} 短路：${describe(next)}。`, endNodeId, next);
+  }
+
+  snapshot(`已求出前 ${k} 条最短无环路径。在列表中点击可在图上以不同颜色对比。`, null, accepted[accepted.length - 1]);
+  return trace.finish();
+};
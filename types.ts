@@ -4,6 +4,7 @@ export interface Node {
   x: number;
   y: number;
   label?: string;
+  pinned?: boolean; // Kept in place by automatic layout
 }
 
 export interface Edge {
@@ -19,6 +20,10 @@ export interface AlgorithmNodeState {
   distance: number;
   parent: string | null;
   status: NodeStatus;
+  heuristic?: number; // A* only: estimated remaining cost h; f = distance + heuristic
+  parents?: string[]; // Every optimal predecessor, when ties are tracked
+  parentEdge?: string | null; // Edge the label came through, which tells parallel edges apart
+  parentEdges?: string[]; // Edge to each entry of `parents`; a parent repeats when tied parallel edges lead from it
 }
 
 export interface AlgorithmStep {
@@ -28,6 +33,236 @@ export interface AlgorithmStep {
   checkingEdgeId: string | null; // The edge currently being relaxed
   nodeStates: Record<string, AlgorithmNodeState>;
   permanentNodes: string[];
+  negativeCycle?: NegativeCycle; // Set on the final step when a negative cycle is found
+  matrix?: DistanceMatrix; // All-pairs algorithms only
+  severity?: 'warning'; // Marks steps that explain a violated precondition
+  paths?: ResultPath[]; // Final result paths (all tied optima, k best, ...)
+  backwardStates?: Record<string, AlgorithmNodeState>; // Bidirectional search: labels grown from the end node
+  meetingNodeId?: string | null; // Bidirectional search: node joining the best path found so far
+  frontier?: FrontierEntry[]; // Priority queue (open list) contents, smallest key first
+}
+
+// Everything in a step except the label maps, the permanent list and the matrix
+export type StepMeta = Omit<AlgorithmStep, 'nodeStates' | 'backwardStates' | 'permanentNodes' | 'matrix'>;
+
+// A matrix cell written by a step: row, column, new distance, new successor
+export type MatrixCell = [number, number, number, string | null];
+
+export type MatrixValues = Pick<DistanceMatrix, 'nodeIds' | 'dist' | 'next'>;
+
+export interface MatrixFrame {
+  pivot: string | null;
+  cells: MatrixCell[]; // The step's `changed` cells with their new values
+  full?: MatrixValues; // Whole matrix, only on the step that introduces it
+}
+
+export interface TraceFrame {
+  meta: StepMeta;
+  nodeChanges: Record<string, AlgorithmNodeState>; // Labels that differ from the previous step
+  backwardChanges?: Record<string, AlgorithmNodeState>;
+  permanentAppended?: string[]; // Nodes appended to the previous permanent list
+  permanentNodes?: string[]; // Full list, only when it is not an extension of the previous one
+  matrix?: MatrixFrame;
+}
+
+export interface TraceKeyframe {
+  nodeStates: Record<string, AlgorithmNodeState>;
+  backwardStates?: Record<string, AlgorithmNodeState>;
+  permanentNodes: string[];
+  matrix?: MatrixValues;
+}
+
+// Delta-encoded run; use getStep() from services/trace.ts to read a full step
+export interface StepTrace {
+  length: number;
+  frames: TraceFrame[];
+  keyframes: TraceKeyframe[]; // keyframes[k] is the state at step k * keyframeInterval
+  keyframeInterval: number;
+}
+
+export interface TraceRecorder {
+  // `touched`: ids of the labels changed since the previous push; all labels are compared when omitted
+  push: (step: AlgorithmStep, touched?: Iterable<string>) => void;
+  length: () => number;
+  finish: () => StepTrace;
+}
+
+// --- Algorithm worker protocol ---
+
+export interface RunProgress {
+  steps: number; // Steps recorded so far
+  settled: number; // Permanent nodes in the latest step
+  total: number; // Nodes in the graph
+}
+
+export interface WorkerRunRequest {
+  type: 'run';
+  runId: number;
+  algorithmId: AlgorithmType;
+  input: Omit<AlgorithmInput, 'recorder'>;
+}
+
+// Stops the worker from reporting on `runId`; answered with 'cancelled'
+export interface WorkerCancelRequest {
+  type: 'cancel';
+  runId: number;
+}
+
+export type WorkerRequest = WorkerRunRequest | WorkerCancelRequest;
+
+export type WorkerResponse =
+  | { type: 'chunk'; runId: number; frames: TraceFrame[]; keyframes: TraceKeyframe[]; progress: RunProgress }
+  | { type: 'done'; runId: number; progress: RunProgress }
+  | { type: 'error'; runId: number; message: string }
+  | { type: 'cancelled'; runId: number };
+
+export interface FrontierEntry {
+  nodeId: string;
+  priority: number; // d for the labeling method, f = g + h for A*
+}
+
+export interface ResultPath {
+  nodeIds: string[];
+  edgeIds: string[];
+  cost: number;
+}
+
+// Runners pass their live matrices to the recorder, which copies only the `changed` cells
+export interface DistanceMatrix {
+  nodeIds: string[]; // Row/column order
+  dist: number[][];
+  next: (string | null)[][]; // Path (successor) matrix: first hop on the way from row to column
+  changed: [number, number][]; // Cells updated in this step
+  pivot: string | null; // Intermediate node k of the current iteration
+}
+
+// The parts of a step that GraphCanvas draws
+export type CanvasStepState = Pick<AlgorithmStep,
+  'activeNodeId' | 'checkingEdgeId' | 'nodeStates' | 'negativeCycle' | 'backwardStates' | 'meetingNodeId'>;
+
+// Everything that decides how the graph looks, shared by the canvas and image export
+export interface CanvasScene {
+  nodes: Node[];
+  edges: Edge[];
+  directed: boolean;
+  startNodeId: string | null;
+  endNodeId: string | null;
+  stepState: CanvasStepState | null;
+  pathHighlights: PathHighlight[];
+  selection: Selection | null;
+}
+
+// Selected canvas elements; null in state when nothing is selected
+export interface Selection {
+  nodeIds: string[];
+  edgeIds: string[];
+}
+
+// Copied subgraph: the selected nodes and the edges between them
+export interface GraphClipboard {
+  nodes: Node[];
+  edges: Edge[];
+}
+
+export type LayoutKind = 'force' | 'layered' | 'circle' | 'grid';
+
+// Pauses playback at the steps where a node's label becomes permanent or changes at all
+export interface Breakpoint {
+  id: string;
+  kind: 'permanent' | 'label';
+  nodeId: string | null; // null: any node
+}
+
+// Pan and zoom of the canvas: screen = graph * k + (x, y)
+export interface Viewport {
+  x: number;
+  y: number;
+  k: number;
+}
+
+// A path drawn over the graph independently of the algorithm state
+export interface PathHighlight {
+  nodeIds: string[];
+  edgeIds: string[];
+  color: string;
+}
+
+export interface NegativeCycle {
+  nodeIds: string[]; // In traversal order; the cycle closes back to nodeIds[0]
+  edgeIds: string[];
+}
+
+export enum AlgorithmType {
+  DOUBLE_LABELING = 'DOUBLE_LABELING',
+  BELLMAN_FORD = 'BELLMAN_FORD',
+  FLOYD_WARSHALL = 'FLOYD_WARSHALL',
+  A_STAR = 'A_STAR',
+  K_SHORTEST = 'K_SHORTEST',
+  BIDIRECTIONAL = 'BIDIRECTIONAL',
+  SHORTEST_PATH_TREE = 'SHORTEST_PATH_TREE',
+}
+
+export type InputRequirement = 'required' | 'optional' | 'unused';
+
+export type AlgorithmOptionValues = Record<string, string | number | boolean>;
+
+export interface AlgorithmInput {
+  nodes: Node[];
+  edges: Edge[];
+  startNodeId: string;
+  endNodeId: string;
+  directed: boolean;
+  options: AlgorithmOptionValues;
+  recorder?: TraceRecorder; // Receives the steps as they are produced; a fresh one is used when omitted
+}
+
+// A user-facing parameter rendered generically by the algorithm picker
+export interface AlgorithmOptionField {
+  key: string;
+  label: string;
+  type: 'select' | 'number' | 'boolean';
+  default: string | number | boolean;
+  choices?: { value: string, label: string }[]; // select only
+  min?: number; // number only
+  step?: number; // number only
+}
+
+// One column of the per-node label table
+export interface StepColumn {
+  key: string;
+  header: string;
+  value: (state: AlgorithmNodeState, context: { node: Node, nodes: Node[], step: AlgorithmStep }) => string;
+  mono?: boolean;
+  badge?: boolean; // Render as a status pill coloured by the node status
+}
+
+export interface LegendItem {
+  label: string;
+  color: string;
+}
+
+export interface AlgorithmDefinition {
+  id: AlgorithmType;
+  name: string; // Shown in the sidebar header
+  shortName: string; // Shown in the picker
+  description: string;
+  inputs: { start: InputRequirement, end: InputRequirement };
+  features: { directed: boolean, undirected: boolean, negativeWeights: boolean };
+  panel: 'labels' | 'matrix'; // Which data view follows the playback controls
+  columns: StepColumn[];
+  legend: LegendItem[];
+  resultsTitle?: string; // Heading of the result path list, when steps carry `paths`
+  resultsView?: 'list' | 'destinations'; // Ranked path list (default) or per-destination table
+  options?: AlgorithmOptionField[];
+  tableau?: boolean; // Nodes become permanent one per iteration, so the trace reads as an iteration table
+  run: (input: AlgorithmInput) => StepTrace;
+}
+
+export type HeuristicKind = 'euclidean' | 'manhattan';
+
+export interface AStarOptions {
+  heuristic: HeuristicKind;
+  scale: number; // Weight units per pixel of canvas distance
 }
 
 export enum EditorMode {
@@ -37,3 +272,67 @@ export enum EditorMode {
   SET_START = 'SET_START',
   SET_END = 'SET_END',
 }
+
+// Everything an editing action can change; undo/redo swaps whole documents
+export interface GraphDocument {
+  nodes: Node[];
+  edges: Edge[];
+  startNodeId: string;
+  endNodeId: string;
+  directed: boolean;
+}
+
+// Versioned JSON form of a graph, used for files, autosave and the local library
+export interface GraphFile {
+  format: 'shortest-path-graph';
+  version: number;
+  name: string;
+  description?: string;
+  createdAt: string; // ISO 8601
+  updatedAt: string;
+  graph: GraphDocument;
+}
+
+// Text formats for the iteration table and step list (services/traceExport.ts)
+export type TraceExportFormat = 'latex' | 'markdown' | 'csv';
+
+// Interchange formats handled by services/graphFormats.ts
+export type GraphFormat = 'matrix-csv' | 'edge-csv' | 'dimacs' | 'graphml' | 'dot';
+
+// What a shared link restores: the graph, the chosen algorithm and the step being shown
+export interface SharedView {
+  graph: GraphDocument;
+  algorithmId: AlgorithmType;
+  options?: AlgorithmOptionValues;
+  stepIndex: number; // -1 when the algorithm has not been run
+}
+
+export interface LibraryEntry extends GraphFile {
+  id: string;
+}
+
+export interface GraphExample {
+  name: string;
+  description: string;
+  graph: GraphDocument;
+}
+
+export interface HistoryEntry {
+  label: string; // Shown on the undo/redo buttons, e.g. "删除节点"
+  before: GraphDocument;
+  after: GraphDocument;
+}
+
+export interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[]; // Next entry to redo first
+}
+
+export type EdgeWeightMode = 'random' | 'fixed' | 'euclidean';
+
+// How the weight of a newly drawn edge is chosen
+export interface EdgeWeightDefaults {
+  mode: EdgeWeightMode;
+  fixed: number; // Weight used by 'fixed'
+  scale: number; // 'euclidean': weight = pixel distance between the endpoints × scale
+}